@@ -0,0 +1,203 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  Container,
+  SingletonRegistry,
+  configFrom,
+  dotenvFile,
+  env,
+  initializeGlobalAccess,
+  jsonFile,
+  options,
+  registerGlobalSingleton,
+} from '../index';
+
+interface ApiConfig {
+  apiUrl: string;
+  timeout: number;
+}
+
+class ApiService {
+  constructor(public config: ApiConfig) {}
+}
+
+class FeatureService {
+  constructor(public api: ApiService, public config: { beta: boolean }) {}
+}
+
+describe('configFrom()', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  it('should build the argument from the sources when the singleton is created', () => {
+    const variables: Record<string, string> = {};
+    container.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env.number('TIMEOUT') }, { sources: [variables] }));
+    variables.API_URL = 'https://api.example.com';
+    variables.TIMEOUT = '5000';
+
+    expect(container.get(ApiService).config).toEqual({ apiUrl: 'https://api.example.com', timeout: 5000 });
+  });
+
+  it('should read process.env by default', () => {
+    process.env.TRUE_STATIC_TEST_URL = 'https://env.example.com';
+    try {
+      container.register(ApiService, configFrom({ apiUrl: env('TRUE_STATIC_TEST_URL'), timeout: env.number('TRUE_STATIC_TEST_TIMEOUT', 5000) }));
+
+      expect(container.get(ApiService).config).toEqual({ apiUrl: 'https://env.example.com', timeout: 5000 });
+    } finally {
+      delete process.env.TRUE_STATIC_TEST_URL;
+    }
+  });
+
+  it('should take each value from the first source that has it', () => {
+    const sources = [{ API_URL: 'https://override.example.com' }, { API_URL: 'https://api.example.com', TIMEOUT: 1000 }];
+    container.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env.number('TIMEOUT') }, { sources }));
+
+    expect(container.get(ApiService).config).toEqual({ apiUrl: 'https://override.example.com', timeout: 1000 });
+  });
+
+  it('should coerce booleans', () => {
+    const sources = [{ BETA: 'Yes' }];
+    container.register(ApiService, configFrom({ apiUrl: env('API_URL', 'https://api.example.com'), timeout: env.number('TIMEOUT', 0) }));
+    container.register(FeatureService, ApiService, configFrom({ beta: env.boolean('BETA', false) }, { sources }));
+
+    expect(container.get(FeatureService).config).toEqual({ beta: true });
+  });
+
+  it('should name the singleton and the variable when a required value is missing', () => {
+    container.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env.number('TIMEOUT', 5000) }, { sources: [{}] }));
+
+    expect(() => container.get(ApiService)).toThrow('Config value API_URL required by ApiService is not set');
+  });
+
+  it('should treat empty values as not set', () => {
+    const sources = [{ API_URL: '', TIMEOUT: '', BETA: '' }, { API_URL: 'https://api.example.com' }];
+    container.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env.number('TIMEOUT', 5000) }, { sources }));
+    container.register(FeatureService, ApiService, configFrom({ beta: env.boolean('BETA') }, { sources }));
+
+    expect(container.get(ApiService).config).toEqual({ apiUrl: 'https://api.example.com', timeout: 5000 });
+    expect(() => container.get(FeatureService)).toThrow('Config value BETA required by FeatureService is not set');
+  });
+
+  it('should fail on values that cannot be coerced', async () => {
+    const sources = [{ API_URL: 'https://api.example.com', TIMEOUT: 'soon', BETA: 'maybe' }];
+    container.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env.number('TIMEOUT') }, { sources }));
+    container.register(FeatureService, ApiService, configFrom({ beta: env.boolean('BETA') }, { sources }));
+
+    await expect(container.getAsync(ApiService)).rejects.toThrow(
+      'Config value TIMEOUT required by ApiService must be a number, not "soon"'
+    );
+    expect(() => container.get(FeatureService)).toThrow('Config value TIMEOUT required by ApiService must be a number');
+  });
+
+  it('should type-check the config object against the constructor parameter', () => {
+    // @ts-expect-error timeout must be a number
+    container.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env('TIMEOUT') }));
+    // @ts-expect-error timeout is missing
+    container.register(ApiService, options({ key: 'partial' }), configFrom({ apiUrl: env('API_URL') }));
+  });
+
+  describe('file sources', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'true-static-config-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should read dotenv files', () => {
+      const path = join(directory, '.env');
+      writeFileSync(
+        path,
+        ['# API settings', 'export API_URL="https://dotenv.example.com"', '', "TIMEOUT = '2500'", 'UNUSED=1 # comment'].join('\n')
+      );
+      container.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env.number('TIMEOUT') }, { sources: [dotenvFile(path)] }));
+
+      expect(container.get(ApiService).config).toEqual({ apiUrl: 'https://dotenv.example.com', timeout: 2500 });
+    });
+
+    it('should read nested JSON values by dotted name', () => {
+      const path = join(directory, 'config.json');
+      writeFileSync(path, JSON.stringify({ api: { url: 'https://json.example.com', timeout: 3000 } }));
+      container.register(ApiService, configFrom({ apiUrl: env('api.url'), timeout: env.number('api.timeout') }, { sources: [jsonFile(path)] }));
+
+      expect(container.get(ApiService).config).toEqual({ apiUrl: 'https://json.example.com', timeout: 3000 });
+    });
+
+    it('should treat missing files as empty and report invalid JSON', () => {
+      const invalid = join(directory, 'invalid.json');
+      writeFileSync(invalid, '{ "api": ');
+      const sources = [dotenvFile(join(directory, 'missing.env')), jsonFile(join(directory, 'missing.json'))];
+      container.register(ApiService, configFrom({ apiUrl: env('API_URL', 'https://api.example.com'), timeout: env.number('TIMEOUT', 5000) }, { sources }));
+      container.register(FeatureService, ApiService, configFrom({ beta: env.boolean('BETA', false) }, { sources: [jsonFile(invalid)] }));
+
+      expect(container.get(ApiService).config).toEqual({ apiUrl: 'https://api.example.com', timeout: 5000 });
+      expect(() => container.get(FeatureService)).toThrow(`Config file ${invalid} is not valid JSON`);
+    });
+  });
+
+  it('should describe config arguments in the dependency graph', () => {
+    container.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env.number('TIMEOUT', 5000) }));
+
+    expect(container.inspect().nodes[0].args).toEqual(['configFrom(API_URL, TIMEOUT)']);
+  });
+});
+
+describe('describeConfig()', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+  });
+
+  it('should list every config value the registrations need', () => {
+    const container = new Container();
+    container.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env.number('TIMEOUT', 5000) }));
+    const child = container.createChild();
+    child.register(FeatureService, ApiService, configFrom({ beta: env.boolean('BETA', false) }));
+
+    expect(child.describeConfig()).toEqual([
+      { key: ApiService, name: 'ApiService', property: 'apiUrl', variable: 'API_URL', type: 'string', required: true },
+      {
+        key: ApiService,
+        name: 'ApiService',
+        property: 'timeout',
+        variable: 'TIMEOUT',
+        type: 'number',
+        required: false,
+        defaultValue: 5000,
+      },
+      {
+        key: FeatureService,
+        name: 'FeatureService',
+        property: 'beta',
+        variable: 'BETA',
+        type: 'boolean',
+        required: false,
+        defaultValue: false,
+      },
+    ]);
+    expect(container.describeConfig()).toHaveLength(2);
+  });
+
+  it('should cover the registry and a separately bound Global container', () => {
+    const container = new Container();
+    initializeGlobalAccess(container);
+    SingletonRegistry.register(ApiService, configFrom({ apiUrl: env('API_URL'), timeout: env.number('TIMEOUT', 5000) }));
+    registerGlobalSingleton('Features', FeatureService, ApiService, configFrom({ beta: env.boolean('BETA', false) }));
+
+    expect(SingletonRegistry.describeConfig().map(({ name, variable }) => `${name}.${variable}`)).toEqual([
+      'ApiService.API_URL',
+      'ApiService.TIMEOUT',
+      'FeatureService.BETA',
+    ]);
+  });
+});
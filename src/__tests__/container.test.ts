@@ -0,0 +1,424 @@
+import { Container, SingletonRegistry, createToken } from '../index';
+
+class ConfigService {
+  constructor(public port: number, public host: string) {}
+}
+
+class DatabaseService {
+  constructor(public config: ConfigService) {}
+}
+
+class ApiService {
+  constructor(public database: DatabaseService, public timeout: number) {}
+}
+
+class LoggerService {
+  public lines: string[] = [];
+}
+
+describe('Container', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+  });
+
+  it('should register and resolve singletons', () => {
+    const container = new Container();
+    container.register(ConfigService, 3000, 'localhost');
+    container.register(DatabaseService, ConfigService);
+
+    const database = container.get(DatabaseService);
+
+    expect(database.config).toBe(container.get(ConfigService));
+    expect(container.isRegistered(DatabaseService)).toBe(true);
+  });
+
+  it('should keep registrations isolated between containers', () => {
+    const first = new Container();
+    const second = new Container();
+
+    first.register(ConfigService, 3000, 'first');
+    second.register(ConfigService, 4000, 'second');
+
+    expect(first.get(ConfigService).host).toBe('first');
+    expect(second.get(ConfigService).host).toBe('second');
+    expect(first.get(ConfigService)).not.toBe(second.get(ConfigService));
+  });
+
+  it('should be isolated from the default SingletonRegistry container', () => {
+    const container = new Container();
+    container.register(ConfigService, 3000, 'isolated');
+    SingletonRegistry.register(ConfigService, 4000, 'default');
+
+    expect(container.get(ConfigService).host).toBe('isolated');
+    expect(SingletonRegistry.get(ConfigService).host).toBe('default');
+    expect(SingletonRegistry.get(ConfigService)).toBe(SingletonRegistry.container.get(ConfigService));
+  });
+
+  it('should not resolve dependencies from other containers', () => {
+    const container = new Container();
+    SingletonRegistry.register(ConfigService, 3000, 'default');
+    container.register(DatabaseService, ConfigService);
+
+    expect(() => {
+      container.get(DatabaseService);
+    }).toThrow('Dependency ConfigService is not registered for singleton DatabaseService');
+  });
+
+  it('should clear only its own registrations', () => {
+    const container = new Container();
+    container.register(ConfigService, 3000, 'container');
+    SingletonRegistry.register(ConfigService, 4000, 'default');
+
+    container.clear();
+
+    expect(container.isRegistered(ConfigService)).toBe(false);
+    expect(SingletonRegistry.isRegistered(ConfigService)).toBe(true);
+  });
+});
+
+describe('Child containers', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+  });
+
+  it('should fall back to the parent for unregistered classes', () => {
+    const parent = new Container();
+    parent.register(ConfigService, 3000, 'parent');
+    const child = parent.createChild();
+
+    expect(child.isRegistered(ConfigService)).toBe(true);
+    expect(child.get(ConfigService)).toBe(parent.get(ConfigService));
+  });
+
+  it('should override a parent registration without touching the parent', () => {
+    const parent = new Container();
+    parent.register(ConfigService, 3000, 'parent');
+    const child = parent.createChild();
+    child.register(ConfigService, 4000, 'child');
+
+    expect(child.get(ConfigService).host).toBe('child');
+    expect(parent.get(ConfigService).host).toBe('parent');
+  });
+
+  it('should rebuild inherited singletons that depend on a child override', () => {
+    const parent = new Container();
+    parent.register(ConfigService, 3000, 'parent');
+    parent.register(DatabaseService, ConfigService);
+    parent.register(ApiService, DatabaseService, 5000);
+    const child = parent.createChild();
+    child.register(ConfigService, 4000, 'tenant');
+
+    const parentApi = parent.get(ApiService);
+    const childApi = child.get(ApiService);
+
+    expect(childApi).not.toBe(parentApi);
+    expect(childApi.database.config.host).toBe('tenant');
+    expect(parentApi.database.config.host).toBe('parent');
+    expect(child.get(ApiService)).toBe(childApi);
+  });
+
+  it('should share inherited singletons unaffected by overrides', () => {
+    const parent = new Container();
+    parent.register(ConfigService, 3000, 'parent');
+    parent.register(LoggerService);
+    const child = parent.createChild();
+    child.register(ConfigService, 4000, 'child');
+
+    expect(child.get(LoggerService)).toBe(parent.get(LoggerService));
+  });
+
+  it('should see overrides from intermediate ancestors', () => {
+    const root = new Container();
+    root.register(ConfigService, 3000, 'root');
+    root.register(DatabaseService, ConfigService);
+    const middle = root.createChild();
+    middle.register(ConfigService, 4000, 'middle');
+    const leaf = middle.createChild();
+
+    expect(leaf.get(DatabaseService).config.host).toBe('middle');
+    expect(leaf.get(DatabaseService)).toBe(middle.get(DatabaseService));
+  });
+
+  it('should resolve the dependency chain asynchronously', async () => {
+    const parent = new Container();
+    parent.register(ConfigService, 3000, 'parent');
+    parent.register(DatabaseService, ConfigService);
+    const child = parent.createChild();
+    child.register(ConfigService, 4000, 'child');
+
+    const database = await child.getAsync(DatabaseService);
+
+    expect(database.config).toBe(child.get(ConfigService));
+  });
+
+  it('should only shut down instances it owns', async () => {
+    const disposed: string[] = [];
+
+    class DisposableConfig {
+      constructor(public name: string) {}
+      dispose() {
+        disposed.push(this.name);
+      }
+    }
+
+    const parent = new Container();
+    parent.register(DisposableConfig, 'parent');
+    const child = parent.createChild();
+    parent.get(DisposableConfig);
+    child.register(DisposableConfig, 'child');
+    child.get(DisposableConfig);
+
+    await child.shutdown();
+
+    expect(disposed).toEqual(['child']);
+  });
+
+  it('should create children of the default container', () => {
+    SingletonRegistry.register(ConfigService, 3000, 'default');
+    const child = SingletonRegistry.createChild();
+
+    expect(child.get(ConfigService)).toBe(SingletonRegistry.get(ConfigService));
+  });
+});
+
+describe('Factory and value providers', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  it('should cache falsy singletons', async () => {
+    const CountToken = createToken<number>('Count');
+    const EnabledToken = createToken<boolean>('Enabled');
+    const count = jest.fn(() => 0);
+    const enabled = jest.fn(async () => false);
+    container.registerFactory(CountToken, count);
+    container.registerFactory(EnabledToken, enabled);
+
+    container.get(CountToken);
+    expect(container.get(CountToken)).toBe(0);
+    await container.getAsync(EnabledToken);
+    expect(await container.getAsync(EnabledToken)).toBe(false);
+
+    expect(count).toHaveBeenCalledTimes(1);
+    expect(enabled).toHaveBeenCalledTimes(1);
+  });
+
+  it('should create an instance with a factory', () => {
+    container.register(ConfigService, 3000, 'localhost');
+    container.registerFactory(DatabaseService, resolve => new DatabaseService(resolve(ConfigService)), {
+      deps: [ConfigService],
+    });
+
+    const database = container.get(DatabaseService);
+
+    expect(database.config).toBe(container.get(ConfigService));
+    expect(container.get(DatabaseService)).toBe(database);
+  });
+
+  it('should resolve declared factory dependencies before calling the factory', () => {
+    const order: string[] = [];
+
+    class TrackedConfig {
+      constructor() {
+        order.push('config');
+      }
+    }
+
+    container.register(TrackedConfig);
+    container.registerFactory(LoggerService, () => {
+      order.push('factory');
+      return new LoggerService();
+    }, { deps: [TrackedConfig] });
+
+    container.get(LoggerService);
+
+    expect(order).toEqual(['config', 'factory']);
+  });
+
+  it('should report unregistered factory dependencies', () => {
+    container.registerFactory(DatabaseService, resolve => new DatabaseService(resolve(ConfigService)), {
+      deps: [ConfigService],
+    });
+
+    expect(() => {
+      container.get(DatabaseService);
+    }).toThrow('Dependency ConfigService is not registered for singleton DatabaseService');
+  });
+
+  it('should support async factories through getAsync', async () => {
+    container.registerFactory(ConfigService, async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      return new ConfigService(3000, 'async');
+    });
+
+    expect(() => {
+      container.get(ConfigService);
+    }).toThrow('Singleton ConfigService requires async initialization; use getAsync(ConfigService)');
+
+    const config = await container.getAsync(ConfigService);
+
+    expect(config.host).toBe('async');
+    expect(container.get(ConfigService)).toBe(config);
+  });
+
+  it('should reject factories that return a promise on synchronous access', () => {
+    container.registerFactory(ConfigService, () => Promise.resolve(new ConfigService(3000, 'promise')));
+
+    expect(() => {
+      container.get(ConfigService);
+    }).toThrow('Singleton ConfigService requires async initialization');
+  });
+
+  it('should honour factory lifetimes', () => {
+    container.registerFactory(LoggerService, () => new LoggerService(), { lifetime: 'transient' });
+
+    expect(container.get(LoggerService)).not.toBe(container.get(LoggerService));
+  });
+
+  it('should return registered values as-is', () => {
+    const config = new ConfigService(3000, 'prebuilt');
+    container.registerValue(ConfigService, config);
+    container.register(DatabaseService, ConfigService);
+
+    expect(container.get(ConfigService)).toBe(config);
+    expect(container.get(DatabaseService).config).toBe(config);
+  });
+
+  it('should not dispose registered values on shutdown', async () => {
+    const logger = new LoggerService();
+    const dispose = jest.fn();
+    (logger as any).dispose = dispose;
+    container.registerValue(LoggerService, logger);
+    container.get(LoggerService);
+
+    await container.shutdown();
+
+    expect(dispose).not.toHaveBeenCalled();
+    expect(container.get(LoggerService)).toBe(logger);
+  });
+
+  it('should refuse to register a value for a registered class', () => {
+    container.register(LoggerService);
+
+    expect(() => {
+      container.registerValue(LoggerService, new LoggerService());
+    }).toThrow('Singleton LoggerService is already registered');
+  });
+});
+
+describe('Eager initialization', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  it('should create eager singletons and their dependencies only', async () => {
+    container.register(ConfigService, 3000, 'localhost');
+    container.register(DatabaseService, { eager: true }, ConfigService);
+    container.register(LoggerService);
+
+    const report = await container.initAll();
+
+    expect(report.timings.map(timing => timing.name)).toEqual(['ConfigService', 'DatabaseService']);
+    expect(container.inspect().nodes.map(node => node.instantiated)).toEqual([true, true, false]);
+  });
+
+  it('should create every singleton with the all option', async () => {
+    container.register(ConfigService, 3000, 'localhost');
+    container.register(DatabaseService, ConfigService);
+    container.register(ApiService, { lifetime: 'transient' }, DatabaseService, 5000);
+    container.register(LoggerService);
+
+    const report = await container.initAll({ all: true });
+
+    expect(report.timings.map(timing => timing.name).sort()).toEqual(['ConfigService', 'DatabaseService', 'LoggerService']);
+    expect(report.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should skip singletons that already exist', async () => {
+    container.register(ConfigService, { eager: true }, 3000, 'localhost');
+    container.get(ConfigService);
+
+    expect((await container.initAll()).timings).toEqual([]);
+  });
+
+  it('should initialize independent branches concurrently', async () => {
+    const events: string[] = [];
+    const slow = (name: string) => async () => {
+      events.push(`start ${name}`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      events.push(`end ${name}`);
+      return { name };
+    };
+    class CacheService {}
+    class QueueService {}
+    class WorkerService {
+      constructor(public cache: object, public queue: object) {}
+    }
+    container.registerFactory(CacheService, slow('cache'));
+    container.registerFactory(QueueService, slow('queue'));
+    container.register(WorkerService, { eager: true }, CacheService, QueueService);
+
+    const report = await container.initAll();
+
+    expect(events).toEqual(['start cache', 'start queue', 'end cache', 'end queue']);
+    expect(report.timings.map(timing => timing.name)).toEqual(['CacheService', 'QueueService', 'WorkerService']);
+    expect(report.timings[0].duration).toBeGreaterThanOrEqual(15);
+    expect(container.get(WorkerService).cache).toEqual({ name: 'cache' });
+  });
+
+  it('should report every failure after creating the other singletons', async () => {
+    class BrokenService {
+      constructor() {
+        throw new Error('broken');
+      }
+    }
+    class DependentService {
+      constructor(public broken: BrokenService) {}
+    }
+    container.register(BrokenService, { eager: true });
+    container.register(DependentService, { eager: true }, BrokenService);
+    container.registerFactory(LoggerService, async () => {
+      throw new Error('logger unavailable');
+    }, { eager: true });
+    container.register(ConfigService, { eager: true }, 3000, 'localhost');
+
+    const error = await container.initAll().catch(error => error);
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.message).toBe('Failed to initialize 2 singleton(s)');
+    expect(error.errors.map((cause: Error) => cause.message)).toEqual(['broken', 'logger unavailable']);
+    expect(container.inspect().nodes.find(node => node.key === ConfigService)?.instantiated).toBe(true);
+  });
+
+  it('should reject eager registrations that are not singletons', () => {
+    expect(() => container.register(LoggerService, { lifetime: 'scoped', eager: true })).toThrow(
+      'Scoped LoggerService cannot be eager; only singletons are created by initAll()'
+    );
+  });
+
+  it('should detect circular dependencies before creating anything', async () => {
+    class ServiceA {
+      constructor(public b: any) {}
+    }
+    class ServiceB {
+      constructor(public a: any) {}
+    }
+    container.register(ServiceA, { eager: true }, ServiceB);
+    container.register(ServiceB, ServiceA);
+
+    await expect(container.initAll()).rejects.toThrow('Circular dependency detected: ServiceA -> ServiceB -> ServiceA');
+  });
+
+  it('should be available through SingletonRegistry', async () => {
+    SingletonRegistry.clear();
+    SingletonRegistry.register(LoggerService, { eager: true });
+
+    await SingletonRegistry.initAll();
+
+    expect(SingletonRegistry.inspect().nodes[0].instantiated).toBe(true);
+  });
+});
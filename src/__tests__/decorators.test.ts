@@ -0,0 +1,233 @@
+import {
+  Container,
+  Inject,
+  InjectDecorator,
+  Singleton,
+  SingletonRegistry,
+  createToken,
+  initializeGlobalAccess,
+} from '../index';
+
+class ConfigService {
+  constructor(public host: string = 'localhost') {}
+}
+
+interface Logger {
+  log(message: string): string;
+}
+
+class ConsoleLogger implements Logger {
+  log(message: string): string {
+    return message;
+  }
+}
+
+const LoggerToken = createToken<Logger>('Logger');
+
+describe('Decorators', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    SingletonRegistry.register(ConfigService);
+    SingletonRegistry.register(LoggerToken, ConsoleLogger);
+  });
+
+  describe('@Singleton', () => {
+    it('should register the class in the default container', () => {
+      @Singleton()
+      class CacheService {}
+
+      expect(SingletonRegistry.isRegistered(CacheService)).toBe(true);
+      expect(SingletonRegistry.get(CacheService)).toBe(SingletonRegistry.get(CacheService));
+    });
+
+    it('should pass the args option to register', () => {
+      @Singleton({ args: [ConfigService, 5000] })
+      class ApiService {
+        constructor(public config: ConfigService, public timeout: number) {}
+      }
+
+      const api = SingletonRegistry.get(ApiService);
+
+      expect(api.config).toBe(SingletonRegistry.get(ConfigService));
+      expect(api.timeout).toBe(5000);
+    });
+
+    it('should refuse constructor parameters under standard decorators without the args option', () => {
+      expect(() => {
+        @Singleton()
+        class ApiService {
+          constructor(public config: ConfigService) {}
+        }
+        return ApiService;
+      }).toThrow('Cannot infer the dependency for parameter 0 of ApiService without design metadata; use @Inject() or the args option');
+    });
+
+    it('should apply registration options', () => {
+      @Singleton({ lifetime: 'transient' })
+      class RequestId {}
+
+      expect(SingletonRegistry.get(RequestId)).not.toBe(SingletonRegistry.get(RequestId));
+    });
+
+    it('should register in the given container', () => {
+      const container = new Container();
+
+      @Singleton({ container })
+      class LocalService {}
+
+      expect(container.isRegistered(LocalService)).toBe(true);
+      expect(SingletonRegistry.isRegistered(LocalService)).toBe(false);
+    });
+
+    it('should expose the class globally', () => {
+      initializeGlobalAccess();
+
+      @Singleton({ global: 'ApiService', args: [ConfigService] })
+      class ApiService {
+        constructor(public config: ConfigService) {}
+      }
+
+      expect((globalThis as any).Global.ApiService).toBe(SingletonRegistry.get(ApiService));
+    });
+
+    it('should register global classes in the container Global is bound to', () => {
+      const container = new Container();
+      container.register(ConfigService, 'bound');
+      initializeGlobalAccess(container);
+
+      @Singleton({ global: 'BoundService', args: [ConfigService] })
+      class BoundService {
+        constructor(public config: ConfigService) {}
+      }
+
+      expect((globalThis as any).Global.BoundService.config.host).toBe('bound');
+      expect(SingletonRegistry.container.isRegistered(BoundService)).toBe(false);
+    });
+  });
+
+  describe('@Inject on fields', () => {
+    it('should resolve fields while the instance is constructed', () => {
+      @Singleton()
+      class ApiService {
+        @Inject(ConfigService) config!: ConfigService;
+        @Inject(LoggerToken) logger!: Logger;
+      }
+
+      const api = SingletonRegistry.get(ApiService);
+
+      expect(api.config).toBe(SingletonRegistry.get(ConfigService));
+      expect(api.logger.log('hi')).toBe('hi');
+    });
+
+    it('should resolve fields from the container the class was registered in', () => {
+      const container = new Container();
+      container.register(ConfigService, 'isolated');
+
+      @Singleton({ container })
+      class ApiService {
+        @Inject(ConfigService) config!: ConfigService;
+      }
+
+      expect(container.get(ApiService).config.host).toBe('isolated');
+    });
+  });
+
+  describe('@Inject on constructor parameters', () => {
+    // Applies decorators the way TypeScript emits them under experimentalDecorators
+    function decorate(target: Function, parameters: [number, InjectDecorator<any>][], options = {}) {
+      for (const [index, decorator] of parameters) {
+        decorator(target, undefined, index);
+      }
+      Singleton(options)(target as any);
+    }
+
+    it('should inject the decorated parameters', () => {
+      class ApiService {
+        constructor(public config: ConfigService, public logger: Logger) {}
+      }
+      decorate(ApiService, [[0, Inject(ConfigService)], [1, Inject(LoggerToken)]]);
+
+      const api = SingletonRegistry.get(ApiService);
+
+      expect(api.config).toBe(SingletonRegistry.get(ConfigService));
+      expect(api.logger).toBe(SingletonRegistry.get(LoggerToken));
+    });
+
+    it('should prefer the args option over parameter decorators', () => {
+      class ApiService {
+        constructor(public config: ConfigService) {}
+      }
+      decorate(ApiService, [[0, Inject(ConfigService)]], { args: [new ConfigService('explicit')] });
+
+      expect(SingletonRegistry.get(ApiService).config.host).toBe('explicit');
+    });
+
+    it('should reject constructor parameters it has no metadata for', () => {
+      class ApiService {
+        constructor(public config: ConfigService, public logger: Logger) {}
+      }
+
+      expect(() => decorate(ApiService, [[0, Inject(ConfigService)]])).toThrow(
+        'Cannot infer the dependency for parameter 1 of ApiService without design metadata; use @Inject() or the args option'
+      );
+      expect(SingletonRegistry.isRegistered(ApiService)).toBe(false);
+    });
+
+    it('should leave parameters with defaults to the constructor', () => {
+      class ApiService {
+        constructor(public timeout = 5000) {}
+      }
+      decorate(ApiService, []);
+
+      expect(SingletonRegistry.get(ApiService).timeout).toBe(5000);
+    });
+
+    it('should reject parameters of methods', () => {
+      class ApiService {}
+
+      expect(() => Inject(ConfigService)(ApiService.prototype, 'handle', 0)).toThrow(
+        '@Inject(ConfigService) can only decorate constructor parameters'
+      );
+    });
+
+    describe('with design metadata', () => {
+      const paramTypes = new Map<Function, unknown[]>();
+
+      beforeAll(() => {
+        (Reflect as any).getMetadata = (key: string, target: Function) =>
+          key === 'design:paramtypes' ? paramTypes.get(target) : undefined;
+      });
+
+      afterAll(() => {
+        delete (Reflect as any).getMetadata;
+      });
+
+      it('should inject parameters by their declared types', () => {
+        class ApiService {
+          constructor(public config: ConfigService, public logger: Logger) {}
+        }
+        paramTypes.set(ApiService, [ConfigService, Object]);
+        decorate(ApiService, [[1, Inject(LoggerToken)]]);
+
+        const api = SingletonRegistry.get(ApiService);
+
+        expect(api.config).toBe(SingletonRegistry.get(ConfigService));
+        expect(api.logger).toBe(SingletonRegistry.get(LoggerToken));
+      });
+
+      it('should reject parameters whose dependency cannot be inferred', () => {
+        class ApiService {
+          constructor(public config: ConfigService, public timeout: number) {}
+        }
+        paramTypes.set(ApiService, [ConfigService, Number]);
+
+        expect(() => decorate(ApiService, [])).toThrow(
+          'Cannot infer the dependency for parameter 1 of ApiService; use @Inject() or the args option'
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,13 @@
+import { Container } from '../../index';
+
+export class ConfigService {
+  constructor(public url: string) {}
+}
+
+export class ApiService {
+  constructor(public config: ConfigService, public timeout: number) {}
+}
+
+export const container = new Container();
+container.register(ConfigService, 'https://api.example.com');
+container.register(ApiService, ConfigService, 5000);
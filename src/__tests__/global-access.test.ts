@@ -1,4 +1,5 @@
-import { SingletonRegistry, initializeGlobalAccess, registerGlobalSingleton } from '../index';
+import { inspect } from 'node:util';
+import { Container, SingletonRegistry, initializeGlobalAccess, registerGlobalSingleton } from '../index';
 
 declare global {
   interface GlobalSingletons {
@@ -25,6 +26,7 @@ describe('Global Access Pattern', () => {
     SingletonRegistry.clear();
     delete (globalThis as any).Global;
     delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
   });
 
   describe('initializeGlobalAccess()', () => {
@@ -113,10 +115,18 @@ describe('Global Access Pattern', () => {
       expect(database.config.host).toBe('dep.test');
     });
 
-    it('should return undefined for unregistered singletons', () => {
-      const result = globalThis.Global.TestService;
-      
-      expect(result).toBeUndefined();
+    it('should throw for unregistered singletons', () => {
+      expect(() => globalThis.Global.TestService).toThrow('Global name TestService is not registered');
+    });
+
+    it('should suggest the closest registered name', () => {
+      registerGlobalSingleton('ConfigService', ConfigService, 3000, 'localhost');
+
+      expect(() => (globalThis.Global as any).ConfgService).toThrow(
+        'Global name ConfgService is not registered; did you mean ConfigService?'
+      );
+      expect(() => (globalThis.Global as any).configservice).toThrow('did you mean ConfigService?');
+      expect(() => (globalThis.Global as any).MailService).toThrow(/is not registered$/);
     });
 
     it('should handle symbol properties gracefully', () => {
@@ -150,9 +160,7 @@ describe('Global Access Pattern', () => {
     it('should throw error when accessing manually registered singleton globally', () => {
       SingletonRegistry.register(TestService, 'manual-only');
       
-      const result = globalThis.Global.TestService;
-      
-      expect(result).toBeUndefined();
+      expect(() => globalThis.Global.TestService).toThrow('Global name TestService is not registered');
     });
   });
 
@@ -186,6 +194,152 @@ describe('Global Access Pattern', () => {
     });
   });
 
+  describe('Reflecting registered names', () => {
+    beforeEach(() => {
+      initializeGlobalAccess();
+      registerGlobalSingleton('ConfigService', ConfigService, 3000, 'localhost');
+      registerGlobalSingleton('DatabaseService', DatabaseService, ConfigService);
+    });
+
+    it('should answer the in operator', () => {
+      expect('ConfigService' in globalThis.Global).toBe(true);
+      expect('TestService' in globalThis.Global).toBe(false);
+    });
+
+    it('should list names without creating the singletons', () => {
+      expect(Object.keys(globalThis.Global)).toEqual(['ConfigService', 'DatabaseService']);
+      expect(Object.getOwnPropertyDescriptor(globalThis.Global, 'ConfigService')).toMatchObject({ enumerable: true });
+      expect(SingletonRegistry.inspect().nodes.some(node => node.instantiated)).toBe(false);
+    });
+
+    it('should show names in console output', () => {
+      expect(inspect(globalThis.Global)).toBe('{ ConfigService: [Getter], DatabaseService: [Getter] }');
+    });
+
+    it('should reject assignments', () => {
+      expect(() => {
+        (globalThis.Global as any).ConfigService = new ConfigService(1, 'other');
+      }).toThrow('Cannot assign Global.ConfigService');
+    });
+
+    it('should not throw for properties that tooling probes', async () => {
+      expect((globalThis.Global as any).then).toBeUndefined();
+      await expect(Promise.resolve(globalThis.Global)).resolves.toBe(globalThis.Global);
+      expect(globalThis.Global).toEqual(globalThis.Global);
+    });
+
+    it('should inherit Object.prototype members', () => {
+      expect(String(globalThis.Global)).toBe('[object Object]');
+      expect(`${globalThis.Global}`).toBe('[object Object]');
+      expect(globalThis.Global.hasOwnProperty('ConfigService')).toBe(true);
+      expect(globalThis.Global.hasOwnProperty('TestService')).toBe(false);
+    });
+
+    it('should return undefined for unknown names in lenient mode', () => {
+      initializeGlobalAccess({ lenient: true });
+
+      expect(globalThis.Global.TestService).toBeUndefined();
+      expect(globalThis.Global.ConfigService).toBeInstanceOf(ConfigService);
+    });
+  });
+
+  describe('Container binding', () => {
+    it('should resolve Global from the bound container', () => {
+      const container = new Container();
+      initializeGlobalAccess(container);
+
+      registerGlobalSingleton('TestService', TestService, 'bound');
+
+      expect(container.isRegistered(TestService)).toBe(true);
+      expect(SingletonRegistry.container.isRegistered(TestService)).toBe(false);
+      expect(globalThis.Global.TestService).toBe(container.get(TestService));
+    });
+
+    it('should act on the bound container through the SingletonRegistry methods', async () => {
+      const container = new Container();
+      initializeGlobalAccess(container);
+      registerGlobalSingleton('TestService', TestService, { eager: true }, 'bound');
+      SingletonRegistry.register(ConfigService, 8080, 'localhost');
+
+      expect(SingletonRegistry.isRegistered(TestService)).toBe(true);
+      expect(SingletonRegistry.inspect().nodes.map(node => node.globalName ?? node.name)).toEqual(['ConfigService', 'TestService']);
+      expect((await SingletonRegistry.initAll()).timings.map(timing => timing.name)).toEqual(['TestService']);
+      expect(SingletonRegistry.get(TestService)).toBe(container.get(TestService));
+
+      const handle = SingletonRegistry.override(TestService, new TestService('override'));
+      expect(globalThis.Global.TestService.name).toBe('override');
+      handle.restore();
+
+      await SingletonRegistry.replace(TestService, ['replaced']);
+      const replaced = globalThis.Global.TestService;
+      expect(replaced.name).toBe('replaced');
+
+      await SingletonRegistry.shutdown();
+      expect(globalThis.Global.TestService).not.toBe(replaced);
+    });
+
+    it('should report registrations once when Global is bound to a child of the default container', () => {
+      initializeGlobalAccess(SingletonRegistry.createChild());
+      SingletonRegistry.register(DatabaseService, ConfigService);
+      registerGlobalSingleton('TestService', TestService, 'child');
+
+      expect(SingletonRegistry.inspect().nodes.map(node => node.name)).toEqual(['DatabaseService', 'TestService']);
+      expect(() => SingletonRegistry.validate()).toThrow(
+        expect.objectContaining({ problems: [expect.objectContaining({ kind: 'missing-dependency' })] })
+      );
+    });
+
+    it('should keep the binding and leniency when called again without options', () => {
+      const container = new Container();
+      initializeGlobalAccess({ container, lenient: true });
+      initializeGlobalAccess();
+
+      registerGlobalSingleton('TestService', TestService, 'bound');
+
+      expect(globalThis.Global.TestService).toBe(container.get(TestService));
+      expect((globalThis.Global as any).MissingService).toBeUndefined();
+    });
+
+    it('should rebind to the default container', () => {
+      initializeGlobalAccess(new Container());
+      initializeGlobalAccess(SingletonRegistry.container);
+
+      registerGlobalSingleton('TestService', TestService, 'default');
+
+      expect(globalThis.Global.TestService).toBe(SingletonRegistry.get(TestService));
+    });
+  });
+
+  describe('Async singletons', () => {
+    beforeEach(() => {
+      initializeGlobalAccess();
+    });
+
+    class AsyncTestService {
+      public ready = false;
+      async onInit() {
+        this.ready = true;
+      }
+    }
+
+    it('should throw a clear error when accessed before initialization', () => {
+      registerGlobalSingleton('AsyncTestService', AsyncTestService);
+
+      expect(() => {
+        const instance = (globalThis.Global as any).AsyncTestService;
+      }).toThrow('Singleton AsyncTestService requires async initialization');
+    });
+
+    it('should return the initialized instance after getAsync', async () => {
+      registerGlobalSingleton('AsyncTestService', AsyncTestService);
+
+      const instance = await SingletonRegistry.getAsync(AsyncTestService);
+
+      expect((globalThis.Global as any).AsyncTestService).toBe(instance);
+      expect(instance.ready).toBe(true);
+    });
+  });
+
   describe('Environment compatibility', () => {
     it('should handle environments without globalThis gracefully', () => {
       Object.defineProperty(globalThis, 'Global', {
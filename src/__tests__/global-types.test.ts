@@ -0,0 +1,101 @@
+import { Container, SingletonRegistry, createToken, defineGlobals, initializeGlobalAccess } from '../index';
+
+interface Logger {
+  log(message: string): string;
+}
+
+class ConsoleLogger implements Logger {
+  log(message: string) {
+    return `log: ${message}`;
+  }
+}
+
+class ConfigService {
+  constructor(public url: string, public timeout: number) {}
+}
+
+class DatabaseService {
+  constructor(public config: ConfigService) {}
+}
+
+class Clock {
+  now() {
+    return 0;
+  }
+}
+
+class TimestampLogger implements Logger {
+  constructor(public clock: Clock) {}
+
+  log(message: string) {
+    return `${this.clock.now()}: ${message}`;
+  }
+}
+
+const LoggerToken = createToken<Logger>('Logger');
+
+describe('defineGlobals()', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+  });
+
+  it('should register every definition and return Global typed from them', () => {
+    const globals = defineGlobals({
+      ConfigService: [ConfigService, 'https://api.example.com', 5000],
+      DatabaseService: [DatabaseService, ConfigService],
+      Logger: [LoggerToken, ConsoleLogger],
+      Clock,
+    });
+
+    const database: DatabaseService = globals.DatabaseService;
+    const logger: Logger = globals.Logger;
+    const now: number = globals.Clock.now();
+
+    expect(globals).toBe(globalThis.Global);
+    expect(database.config).toBe(globals.ConfigService);
+    expect(database.config.timeout).toBe(5000);
+    expect(logger.log('hi')).toBe('log: hi');
+    expect(now).toBe(0);
+    // @ts-expect-error - not defined
+    expect(() => globals.MailService).toThrow('Global name MailService is not registered');
+  });
+
+  it('should expose tokens registered elsewhere', () => {
+    SingletonRegistry.registerValue(LoggerToken, new ConsoleLogger());
+
+    const globals = defineGlobals({ Logger: LoggerToken });
+
+    expect(globals.Logger).toBe(SingletonRegistry.get(LoggerToken));
+  });
+
+  it('should type-check the arguments of each definition against its constructor', () => {
+    // Only type-checked: each call is a compile error
+    const rejected = () => {
+      // @ts-expect-error - url must be a string and there is no third parameter
+      defineGlobals({ ConfigService: [ConfigService, 8080, 'x'] });
+      // @ts-expect-error - timeout is missing
+      defineGlobals({ ConfigService: [ConfigService, 'https://api.example.com'] });
+      // @ts-expect-error - Clock does not implement Logger
+      defineGlobals({ Logger: [LoggerToken, Clock] });
+      // @ts-expect-error - TimestampLogger needs a Clock
+      defineGlobals({ Logger: [LoggerToken, TimestampLogger, 'now'] });
+      // @ts-expect-error - DatabaseService needs a ConfigService
+      defineGlobals({ DatabaseService: [DatabaseService, { lifetime: 'transient' }, 'https://api.example.com'] });
+    };
+
+    expect(rejected).toBeInstanceOf(Function);
+  });
+
+  it('should register in the container Global is bound to', () => {
+    const container = new Container();
+    initializeGlobalAccess(container);
+
+    defineGlobals({ Clock });
+
+    expect(container.isRegistered(Clock)).toBe(true);
+    expect(SingletonRegistry.container.isRegistered(Clock)).toBe(false);
+  });
+});
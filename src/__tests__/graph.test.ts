@@ -0,0 +1,213 @@
+import { join } from 'node:path';
+import {
+  Container,
+  SingletonRegistry,
+  createToken,
+  initializeGlobalAccess,
+  literal,
+  registerGlobalSingleton,
+  toDot,
+  toJson,
+  toMermaid,
+} from '../index';
+import { main } from '../cli';
+
+class ConfigService {
+  constructor(public url: string, public retries: number) {}
+}
+
+class DatabaseService {
+  constructor(public config: ConfigService) {}
+}
+
+class ApiService {
+  constructor(public config: ConfigService, public db: DatabaseService) {}
+}
+
+describe('Graph inspection', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(ConfigService, 'https://api.example.com', 3);
+    container.register(DatabaseService, ConfigService);
+    container.register(ApiService, { lifetime: 'transient' }, ConfigService, DatabaseService);
+  });
+
+  it('should report every registration with its dependencies and dependents', () => {
+    const { nodes } = container.inspect();
+
+    expect(nodes.map(node => node.name)).toEqual(['ConfigService', 'DatabaseService', 'ApiService']);
+    expect(nodes[0]).toEqual({
+      key: ConfigService,
+      name: 'ConfigService',
+      provider: 'class',
+      lifetime: 'singleton',
+      args: ['"https://api.example.com"', '3'],
+      dependencies: [],
+      dependents: [DatabaseService, ApiService],
+      instantiated: false,
+    });
+    expect(nodes[2]).toMatchObject({
+      lifetime: 'transient',
+      args: ['ConfigService', 'DatabaseService'],
+      dependencies: [ConfigService, DatabaseService],
+      dependents: [],
+    });
+  });
+
+  it('should report which singletons have been created without creating any', () => {
+    container.get(DatabaseService);
+
+    const instantiated = container.inspect().nodes.map(node => [node.name, node.instantiated]);
+
+    expect(instantiated).toEqual([
+      ['ConfigService', true],
+      ['DatabaseService', true],
+      ['ApiService', false],
+    ]);
+  });
+
+  it('should summarize factories, values and literal arguments', () => {
+    const ClientToken = createToken<object>('Client');
+    class Reporter {
+      constructor(public type: Function, public options: object, public tags: string[]) {}
+    }
+    container.registerFactory(ClientToken, resolve => ({ config: resolve(ConfigService) }), { deps: [ConfigService] });
+    container.registerValue(Date, new Date(0));
+    container.register(Reporter, literal(TypeError), { level: 1 }, ['a', 'b']);
+
+    const nodes = container.inspect().nodes.slice(3);
+
+    expect(nodes.map(node => [node.name, node.provider, node.args, node.instantiated])).toEqual([
+      ['Client', 'factory', ['ConfigService'], false],
+      ['Date', 'value', [], true],
+      ['Reporter', 'class', ['[Function TypeError]', '{...}', 'Array(2)'], false],
+    ]);
+  });
+
+  it('should include parent registrations in a child container', () => {
+    const child = container.createChild();
+    class CacheService {}
+    child.register(CacheService);
+
+    expect(child.inspect().nodes.map(node => node.name)).toEqual([
+      'ConfigService',
+      'DatabaseService',
+      'ApiService',
+      'CacheService',
+    ]);
+  });
+
+  it('should fill in Global names in SingletonRegistry.inspect()', () => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    initializeGlobalAccess();
+    registerGlobalSingleton('Config', ConfigService, 'https://api.example.com', 3);
+
+    expect(SingletonRegistry.inspect().nodes[0].globalName).toBe('Config');
+  });
+
+  describe('exporters', () => {
+    beforeEach(() => {
+      class AuditService {
+        constructor(public missing: any) {}
+      }
+      class MissingService {}
+      container.register(AuditService, MissingService);
+    });
+
+    it('should render Graphviz DOT', () => {
+      expect(toDot(container.inspect())).toBe([
+        'digraph singletons {',
+        '  rankdir=LR;',
+        '  node [shape=box];',
+        '  n0 [label="ConfigService"];',
+        '  n1 [label="DatabaseService"];',
+        '  n2 [label="ApiService\\n(transient)"];',
+        '  n3 [label="AuditService"];',
+        '  n4 [label="MissingService\\n(not registered)", style=dashed];',
+        '  n1 -> n0;',
+        '  n2 -> n0;',
+        '  n2 -> n1;',
+        '  n3 -> n4;',
+        '}',
+      ].join('\n'));
+    });
+
+    it('should render a Mermaid flowchart', () => {
+      expect(toMermaid(container.inspect())).toBe([
+        'graph LR',
+        '  n0["ConfigService"]',
+        '  n1["DatabaseService"]',
+        '  n2["ApiService<br/>(transient)"]',
+        '  n3["AuditService"]',
+        '  n4["MissingService<br/>(not registered)"]:::missing',
+        '  n1 --> n0',
+        '  n2 --> n0',
+        '  n2 --> n1',
+        '  n3 --> n4',
+        '  classDef missing stroke-dasharray: 5 5',
+      ].join('\n'));
+    });
+
+    it('should render JSON with keys replaced by names', () => {
+      const json = JSON.parse(toJson(container.inspect()));
+
+      expect(json.nodes[1]).toEqual({
+        name: 'DatabaseService',
+        provider: 'class',
+        lifetime: 'singleton',
+        args: ['ConfigService'],
+        dependencies: ['ConfigService'],
+        dependents: ['ApiService'],
+        instantiated: false,
+      });
+      expect(json.nodes[3].dependencies).toEqual(['MissingService']);
+    });
+  });
+});
+
+describe('true-static graph', () => {
+  const entry = join(__dirname, 'fixtures', 'graph-entry.ts');
+
+  function run(args: string[]) {
+    let stdout = '';
+    let stderr = '';
+    const code = main(args, {
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) },
+    });
+    return { code, stdout, stderr };
+  }
+
+  it('should print the graph of the container an entry module exports', () => {
+    const { code, stdout } = run(['graph', entry]);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe(['graph LR', '  n0["ConfigService"]', '  n1["ApiService"]', '  n1 --> n0', ''].join('\n'));
+  });
+
+  it('should print the requested format', () => {
+    const { code, stdout } = run(['graph', entry, '--format', 'json']);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).nodes[1].args).toEqual(['ConfigService', '5000']);
+  });
+
+  it('should reject unknown formats and missing arguments', () => {
+    expect(run(['graph', entry, '--format=svg'])).toMatchObject({
+      code: 1,
+      stderr: 'Unknown format svg; expected one of dot, mermaid, json\n',
+    });
+    expect(run(['graph']).stderr).toContain('Usage: true-static graph <entry-file>');
+  });
+
+  it('should report entry modules that fail to load', () => {
+    const { code, stderr } = run(['graph', join(__dirname, 'fixtures', 'missing.js')]);
+
+    expect(code).toBe(1);
+    expect(stderr).toMatch(/^Failed to load .*missing\.js: /);
+  });
+});
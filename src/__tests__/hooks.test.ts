@@ -0,0 +1,269 @@
+import { subscribe, unsubscribe } from 'node:diagnostics_channel';
+import { performance } from 'node:perf_hooks';
+import {
+  Container,
+  ContainerHooks,
+  SingletonRegistry,
+  createToken,
+  diagnosticsChannels,
+  diagnosticsHooks,
+  initializeGlobalAccess,
+  registerGlobalSingleton,
+} from '../index';
+
+class ConfigService {
+  constructor(public url: string = 'https://api.example.com') {}
+}
+
+class ApiService {
+  constructor(public config: ConfigService) {}
+
+  fetch(path: string) {
+    return `${this.config.url}${path}`;
+  }
+}
+
+class BrokenService {
+  constructor() {
+    throw new Error('broken');
+  }
+}
+
+class ReportService {
+  constructor(public broken: BrokenService) {}
+}
+
+describe('Container hooks', () => {
+  let container: Container;
+  let events: string[];
+  let hooks: ContainerHooks;
+
+  beforeEach(() => {
+    container = new Container();
+    events = [];
+    hooks = {
+      onRegister: ({ name, provider }) => events.push(`register ${name} (${provider})`),
+      beforeCreate: ({ path }) => events.push(`before ${path.map(key => (key as Function).name).join(' > ')}`),
+      afterCreate: ({ name }) => {
+        events.push(`after ${name}`);
+      },
+      onResolve: ({ name }) => events.push(`resolve ${name}`),
+      onError: ({ name, error }) => events.push(`error ${name}: ${(error as Error).message}`),
+    };
+    container.addHooks(hooks);
+  });
+
+  it('should report registrations', () => {
+    container.register(ConfigService);
+    container.registerValue(ApiService, new ApiService(new ConfigService()));
+
+    expect(events).toEqual(['register ConfigService (class)', 'register ApiService (value)']);
+  });
+
+  it('should report creation and resolution with the resolution path', () => {
+    container.register(ConfigService);
+    container.register(ApiService, ConfigService);
+    events.length = 0;
+
+    container.get(ApiService);
+    container.get(ApiService);
+
+    expect(events).toEqual([
+      'before ApiService',
+      'before ApiService > ConfigService',
+      'after ConfigService',
+      'resolve ConfigService',
+      'after ApiService',
+      'resolve ApiService',
+      'resolve ApiService',
+    ]);
+  });
+
+  it('should report creation through getAsync', async () => {
+    container.register(ConfigService);
+    container.register(ApiService, ConfigService);
+    events.length = 0;
+
+    await container.getAsync(ApiService);
+
+    expect(events).toContain('before ApiService > ConfigService');
+    expect(events.slice(-2)).toEqual(['after ApiService', 'resolve ApiService']);
+  });
+
+  it('should let afterCreate replace the instance', () => {
+    const calls: string[] = [];
+    container.addHooks({
+      afterCreate: ({ instance, name }) =>
+        new Proxy(instance, {
+          get(target, property, receiver) {
+            const value = Reflect.get(target, property, receiver);
+            return typeof value === 'function'
+              ? (...args: unknown[]) => {
+                  calls.push(`${name}.${String(property)}`);
+                  return value.apply(target, args);
+                }
+              : value;
+          },
+        }),
+    });
+    container.register(ConfigService);
+    container.register(ApiService, ConfigService);
+
+    expect(container.get(ApiService).fetch('/users')).toBe('https://api.example.com/users');
+    expect(calls).toEqual(['ApiService.fetch']);
+    expect(container.get(ApiService)).toBe(container.get(ApiService));
+  });
+
+  it('should report each error once, for the innermost key', () => {
+    container.register(BrokenService);
+    container.register(ReportService, BrokenService);
+    events.length = 0;
+
+    expect(() => container.get(ReportService)).toThrow('broken');
+
+    expect(events.filter(event => event.startsWith('error'))).toEqual(['error BrokenService: broken']);
+  });
+
+  it('should report keys that are not registered', async () => {
+    await expect(container.getAsync(ConfigService)).rejects.toThrow('Singleton ConfigService is not registered');
+
+    expect(events).toEqual(['error ConfigService: Singleton ConfigService is not registered']);
+  });
+
+  it('should report durations', () => {
+    const durations: number[] = [];
+    container.addHooks({
+      afterCreate: ({ duration }) => {
+        durations.push(duration);
+      },
+      onResolve: ({ duration }) => durations.push(duration),
+    });
+    container.register(ConfigService);
+
+    container.get(ConfigService);
+
+    expect(durations).toHaveLength(2);
+    expect(durations.every(duration => duration >= 0)).toBe(true);
+  });
+
+  it('should stop calling removed hooks', () => {
+    const remove = container.addHooks({ onRegister: () => events.push('extra') });
+
+    remove();
+    container.register(ConfigService);
+
+    expect(events).toEqual(['register ConfigService (class)']);
+  });
+
+  it('should report resolutions a child container falls back to', () => {
+    container.register(ConfigService);
+    const child = container.createChild();
+    events.length = 0;
+
+    child.get(ConfigService);
+
+    expect(events).toEqual(['before ConfigService', 'after ConfigService', 'resolve ConfigService']);
+  });
+});
+
+describe('SingletonRegistry hooks', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    initializeGlobalAccess();
+  });
+
+  it('should report Global names', () => {
+    const names: (string | undefined)[] = [];
+    const remove = SingletonRegistry.addHooks({
+      onRegister: ({ globalName }) => names.push(globalName),
+      onResolve: ({ globalName }) => names.push(globalName),
+    });
+
+    registerGlobalSingleton('Config', ConfigService);
+    (globalThis as any).Global.Config;
+    remove();
+
+    expect(names).toEqual(['Config', 'Config']);
+  });
+
+  it('should add hooks to a separately bound Global container too', () => {
+    const container = new Container();
+    initializeGlobalAccess(container);
+    const names: string[] = [];
+    const remove = SingletonRegistry.addHooks({ onRegister: ({ name }) => names.push(name) });
+
+    SingletonRegistry.register(ConfigService);
+    registerGlobalSingleton('Api', ApiService, ConfigService);
+    remove();
+    registerGlobalSingleton('Config', ConfigService);
+
+    expect(names).toEqual(['ConfigService', 'ApiService']);
+  });
+});
+
+describe('diagnosticsHooks()', () => {
+  let container: Container;
+  const messages: [string, any][] = [];
+  const listeners = Object.values(diagnosticsChannels).map(
+    name => [name, (message: unknown) => messages.push([name, message])] as const
+  );
+
+  beforeAll(() => {
+    listeners.forEach(([name, listener]) => subscribe(name, listener));
+  });
+
+  afterAll(() => {
+    listeners.forEach(([name, listener]) => unsubscribe(name, listener));
+  });
+
+  beforeEach(() => {
+    messages.length = 0;
+    performance.clearMeasures();
+    container = new Container();
+    container.addHooks(diagnosticsHooks());
+  });
+
+  it('should publish every event to its channel', () => {
+    container.register(ConfigService);
+    container.get(ConfigService);
+
+    expect(messages.map(([name, message]) => [name, message.name])).toEqual([
+      ['true-static:register', 'ConfigService'],
+      ['true-static:before-create', 'ConfigService'],
+      ['true-static:after-create', 'ConfigService'],
+      ['true-static:resolve', 'ConfigService'],
+    ]);
+    expect(messages[2][1].instance).toBeInstanceOf(ConfigService);
+  });
+
+  it('should publish errors', () => {
+    expect(() => container.get(ConfigService)).toThrow();
+
+    expect(messages).toEqual([['true-static:error', expect.objectContaining({ key: ConfigService })]]);
+  });
+
+  it('should measure instance creation on the performance timeline', () => {
+    const LoggerToken = createToken<object>('Logger');
+    container.register(ConfigService);
+    container.registerFactory(LoggerToken, resolve => ({ config: resolve(ConfigService) }), { deps: [ConfigService] });
+
+    container.get(LoggerToken);
+
+    const measures = performance.getEntriesByType('measure').filter(entry => entry.name.startsWith('true-static:'));
+    expect(measures.map(entry => entry.name)).toEqual(['true-static:create ConfigService', 'true-static:create Logger']);
+    expect((measures[0] as any).detail).toMatchObject({ name: 'ConfigService', path: ['Logger', 'ConfigService'] });
+  });
+
+  it('should leave the timeline alone when performance is disabled', () => {
+    const quiet = new Container();
+    quiet.addHooks(diagnosticsHooks({ performance: false }));
+    quiet.register(ConfigService);
+
+    quiet.get(ConfigService);
+
+    expect(performance.getEntriesByType('measure').filter(entry => entry.name.startsWith('true-static:'))).toEqual([]);
+  });
+});
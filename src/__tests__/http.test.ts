@@ -0,0 +1,90 @@
+import { AddressInfo } from 'node:net';
+import { Server, createServer, get } from 'node:http';
+import { Container, HttpContext, withRequestScope } from '../index';
+
+class RequestContext {
+  public disposed = false;
+  constructor(public http: HttpContext) {}
+  get user() {
+    return this.http.request.headers['x-user'];
+  }
+  dispose() {
+    this.disposed = true;
+  }
+}
+
+class Greeter {
+  constructor(public context: RequestContext) {}
+  greet() {
+    return `hello ${this.context.user}`;
+  }
+}
+
+function request(server: Server, user: string): Promise<{ status: number; body: string }> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    get({ port, headers: { 'x-user': user } }, response => {
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => (body += chunk));
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body }));
+    }).on('error', reject);
+  });
+}
+
+describe('withRequestScope', () => {
+  let container: Container;
+  let server: Server;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(RequestContext, { requestScoped: true }, HttpContext);
+    container.register(Greeter, { requestScoped: true }, RequestContext);
+  });
+
+  afterEach(done => {
+    server.close(() => done());
+  });
+
+  function listen(handler: Parameters<typeof withRequestScope>[0]): Promise<void> {
+    server = createServer(withRequestScope(handler, { container }));
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  }
+
+  it('should resolve request-scoped services for each request', async () => {
+    await listen(async (req, res) => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      res.end(container.get(Greeter).greet());
+    });
+
+    const [alice, bob] = await Promise.all([request(server, 'alice'), request(server, 'bob')]);
+
+    expect(alice.body).toBe('hello alice');
+    expect(bob.body).toBe('hello bob');
+  });
+
+  it('should dispose the request scope after the response closes', async () => {
+    const contexts: RequestContext[] = [];
+
+    await listen((req, res) => {
+      contexts.push(container.get(RequestContext));
+      setTimeout(() => res.end('done'), 5);
+    });
+
+    await request(server, 'carol');
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0].disposed).toBe(true);
+  });
+
+  it('should answer with a 500 when the handler throws', async () => {
+    await listen(() => {
+      throw new Error('boom');
+    });
+
+    const response = await request(server, 'dave');
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,100 @@
+import { Container, inject, literal, options } from '../index';
+
+class ConfigService {
+  constructor(public host: string) {}
+}
+
+class ApiService {
+  constructor(public config: ConfigService, public timeout: number) {}
+}
+
+describe('Argument markers', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(ConfigService, 'localhost');
+  });
+
+  it('should inject dependencies marked with inject()', () => {
+    container.register(ApiService, inject(ConfigService), 5000);
+
+    const api = container.get(ApiService);
+
+    expect(api.config).toBe(container.get(ConfigService));
+    expect(api.timeout).toBe(5000);
+  });
+
+  it('should inject functions that do not look like classes', () => {
+    const LegacyConfig = function (this: any) {
+      this.host = 'legacy';
+    } as any;
+    LegacyConfig.prototype.constructor = undefined;
+
+    class LegacyConsumer {
+      constructor(public config: { host: string }) {}
+    }
+
+    container.register(LegacyConfig);
+    container.register(LegacyConsumer, inject(LegacyConfig));
+
+    expect(container.get(LegacyConsumer).config.host).toBe('legacy');
+  });
+
+  it('should pass classes marked with literal() unchanged', () => {
+    class ErrorReporter {
+      constructor(public errorType: typeof Error) {}
+    }
+
+    container.register(ErrorReporter, literal(TypeError));
+
+    expect(container.get(ErrorReporter).errorType).toBe(TypeError);
+  });
+
+  it('should not require literal classes to be registered', () => {
+    class Plugin {
+      constructor(public type: Function, public config: ConfigService) {}
+    }
+
+    container.register(Plugin, literal(ApiService), ConfigService);
+
+    const plugin = container.get(Plugin);
+
+    expect(plugin.type).toBe(ApiService);
+    expect(plugin.config).toBe(container.get(ConfigService));
+  });
+
+  it('should pass objects that look like registration options with literal()', () => {
+    class FeatureFlags {
+      constructor(public flags: { eager: boolean }) {}
+    }
+
+    container.register(FeatureFlags, literal({ eager: true }));
+
+    expect(container.get(FeatureFlags).flags).toEqual({ eager: true });
+  });
+
+  it('should take registration options marked with options()', async () => {
+    class FeatureFlags {
+      constructor(public flags: { eager: boolean }) {}
+    }
+    class Check {}
+    class DiskCheck extends Check {}
+
+    container.register(FeatureFlags, options({ eager: true }), literal({ eager: false }));
+    container.registerMulti(Check, options({ order: 1, lifetime: 'transient' }), DiskCheck);
+    const report = await container.initAll();
+
+    expect(report.timings.map(timing => timing.key)).toEqual([FeatureFlags]);
+    expect(container.get(FeatureFlags).flags).toEqual({ eager: false });
+    expect(container.getAll(Check)[0]).not.toBe(container.getAll(Check)[0]);
+  });
+
+  it('should resolve inject() markers asynchronously', async () => {
+    container.register(ApiService, inject(ConfigService), 1000);
+
+    const api = await container.getAsync(ApiService);
+
+    expect(api.config).toBe(container.get(ConfigService));
+  });
+});
@@ -0,0 +1,239 @@
+import { subscribe, unsubscribe } from 'node:diagnostics_channel';
+import {
+  Container,
+  Interceptor,
+  Invocation,
+  MethodTiming,
+  SingletonRegistry,
+  initializeGlobalAccess,
+  registerGlobalSingleton,
+  retry,
+  timed,
+  timedChannel,
+} from '../index';
+
+class ConfigService {
+  constructor(public url: string = 'https://api.example.com') {}
+}
+
+class ApiService {
+  public calls = 0;
+  #token = 'secret';
+
+  constructor(public config: ConfigService) {}
+
+  fetch(path: string): string {
+    this.calls++;
+    return `${this.config.url}${path}`;
+  }
+
+  async fetchAsync(path: string): Promise<string> {
+    return this.fetch(path);
+  }
+
+  get token(): string {
+    return this.#token;
+  }
+
+  authorized(): string {
+    return `Bearer ${this.#token}`;
+  }
+}
+
+/** Fails the first `failures` calls of every method, then calls through */
+function flaky(failures: number): Interceptor {
+  let remaining = failures;
+  return invocation => {
+    if (remaining-- > 0) {
+      throw new Error(`attempt failed`);
+    }
+    return invocation.proceed();
+  };
+}
+
+describe('Interceptors', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(ConfigService);
+  });
+
+  it('should run every method call through the chain, first interceptor outermost', () => {
+    const order: string[] = [];
+    const trace = (label: string): Interceptor => invocation => {
+      order.push(`${label} before ${invocation.method}`);
+      const result = invocation.proceed();
+      order.push(`${label} after ${result}`);
+      return result;
+    };
+    container.register(ApiService, { intercept: [trace('outer'), trace('inner')] }, ConfigService);
+
+    const result = container.get(ApiService).fetch('/users');
+
+    expect(result).toBe('https://api.example.com/users');
+    expect(order).toEqual([
+      'outer before fetch',
+      'inner before fetch',
+      'inner after https://api.example.com/users',
+      'outer after https://api.example.com/users',
+    ]);
+  });
+
+  it('should expose the key, target and arguments, and let interceptors change the arguments', () => {
+    let seen: Invocation | undefined;
+    container.register(ApiService, {
+      intercept: [
+        invocation => {
+          seen = invocation;
+          invocation.args = ['/rewritten'];
+          return invocation.proceed();
+        },
+      ],
+    }, ConfigService);
+    const api = container.get(ApiService);
+
+    expect(api.fetch('/users')).toBe('https://api.example.com/rewritten');
+    expect(seen).toMatchObject({ key: ApiService, method: 'fetch', args: ['/rewritten'] });
+    expect(seen!.target).not.toBe(api);
+    expect(seen!.target).toBeInstanceOf(ApiService);
+  });
+
+  it('should let interceptors short-circuit the method', () => {
+    container.register(ApiService, { intercept: [() => 'cached'] }, ConfigService);
+    const api = container.get(ApiService);
+
+    expect(api.fetch('/users')).toBe('cached');
+    expect(api.calls).toBe(0);
+  });
+
+  it('should keep instanceof, private fields and method identity working', () => {
+    container.register(ApiService, { intercept: [invocation => invocation.proceed()] }, ConfigService);
+    const api = container.get(ApiService);
+
+    expect(api).toBeInstanceOf(ApiService);
+    expect(api.token).toBe('secret');
+    expect(api.authorized()).toBe('Bearer secret');
+    expect(api.fetch).toBe(api.fetch);
+    expect(api.config).toBe(container.get(ConfigService));
+  });
+
+  it('should intercept async methods', async () => {
+    const results: unknown[] = [];
+    container.register(ApiService, {
+      intercept: [
+        async invocation => {
+          const result = await invocation.proceed();
+          results.push(result);
+          return result;
+        },
+      ],
+    }, ConfigService);
+
+    await expect(container.get(ApiService).fetchAsync('/users')).resolves.toBe('https://api.example.com/users');
+    // fetchAsync calls this.fetch on the instance itself, which is not intercepted
+    expect(results).toEqual(['https://api.example.com/users']);
+  });
+
+  it('should wrap factory instances and instances resolved through Global', () => {
+    const calls: string[] = [];
+    const record: Interceptor = invocation => {
+      calls.push(invocation.method);
+      return invocation.proceed();
+    };
+    container.registerFactory(
+      ApiService,
+      resolve => new ApiService(resolve(ConfigService)),
+      { deps: [ConfigService], intercept: [record] }
+    );
+    container.get(ApiService).fetch('/factory');
+
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    initializeGlobalAccess();
+    registerGlobalSingleton('Config', ConfigService);
+    registerGlobalSingleton('Api', ApiService, { intercept: [record] }, ConfigService);
+    (globalThis as any).Global.Api.fetch('/global');
+
+    expect(calls).toEqual(['fetch', 'fetch']);
+  });
+});
+
+describe('retry()', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(ConfigService);
+  });
+
+  it('should retry sync methods that throw', () => {
+    container.register(ApiService, { intercept: [retry(2), flaky(2)] }, ConfigService);
+
+    expect(container.get(ApiService).fetch('/users')).toBe('https://api.example.com/users');
+  });
+
+  it('should give up after the given number of retries', () => {
+    container.register(ApiService, { intercept: [retry(1), flaky(2)] }, ConfigService);
+
+    expect(() => container.get(ApiService).fetch('/users')).toThrow('attempt failed');
+  });
+
+  it('should retry async methods that reject, after the delay', async () => {
+    let attempts = 0;
+    const rejectOnce: Interceptor = invocation => (attempts++ === 0 ? Promise.reject(new Error('timeout')) : invocation.proceed());
+    container.register(ApiService, { intercept: [retry(3, { delay: 1 }), rejectOnce] }, ConfigService);
+
+    await expect(container.get(ApiService).fetchAsync('/users')).resolves.toBe('https://api.example.com/users');
+    expect(attempts).toBe(2);
+  });
+
+  it('should only retry errors accepted by retryIf', () => {
+    container.register(ApiService, {
+      intercept: [retry(3, { retryIf: error => (error as Error).message !== 'attempt failed' }), flaky(1)],
+    }, ConfigService);
+
+    expect(() => container.get(ApiService).fetch('/users')).toThrow('attempt failed');
+  });
+});
+
+describe('timed()', () => {
+  it('should report the duration of sync and async calls', async () => {
+    const timings: MethodTiming[] = [];
+    const container = new Container();
+    container.register(ConfigService);
+    container.register(ApiService, { intercept: [timed(timing => timings.push(timing))] }, ConfigService);
+    const api = container.get(ApiService);
+
+    api.fetch('/users');
+    await api.fetchAsync('/users');
+
+    expect(timings.map(({ key, method }) => [key, method])).toEqual([
+      [ApiService, 'fetch'],
+      [ApiService, 'fetchAsync'],
+    ]);
+    expect(timings.every(({ duration }) => duration >= 0)).toBe(true);
+  });
+
+  it('should publish to the timed channel by default', () => {
+    const timings: MethodTiming[] = [];
+    const listener = (message: unknown) => timings.push(message as MethodTiming);
+    subscribe(timedChannel, listener);
+    performance.clearMeasures();
+    const container = new Container();
+    container.register(ConfigService);
+    container.register(ApiService, { intercept: [timed()] }, ConfigService);
+
+    try {
+      container.get(ApiService).fetch('/users');
+    } finally {
+      unsubscribe(timedChannel, listener);
+    }
+    container.get(ApiService).fetch('/users');
+
+    expect(timings).toEqual([{ key: ApiService, method: 'fetch', duration: expect.any(Number) }]);
+    expect(performance.getEntriesByType('measure')).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import { Container, LazyMarker, lazy, lazyGetter, toDot, toMermaid } from '../index';
+
+class EventBus {
+  public received: string[] = [];
+  #handled = 0;
+
+  constructor(public scheduler: Scheduler) {}
+
+  emit(event: string) {
+    this.#handled++;
+    this.received.push(event);
+  }
+
+  get handled() {
+    return this.#handled;
+  }
+}
+
+class Scheduler {
+  constructor(public events: EventBus) {}
+
+  tick() {
+    this.events.emit('tick');
+  }
+}
+
+class EagerScheduler extends Scheduler {
+  constructor(events: EventBus) {
+    super(events);
+    events.emit('constructed');
+  }
+}
+
+class AsyncScheduler extends Scheduler {
+  async onInit() {}
+}
+
+class Clock {
+  constructor(public events: () => EventBus) {}
+}
+
+describe('Lazy dependencies', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  it('should allow a cycle with a lazy edge', () => {
+    container.register(EventBus, Scheduler);
+    container.register(Scheduler, lazy(EventBus));
+
+    const bus = container.get(EventBus);
+    bus.scheduler.tick();
+
+    expect(bus.received).toEqual(['tick']);
+    expect(container.get(Scheduler).events.scheduler).toBe(container.get(Scheduler));
+  });
+
+  it('should resolve the instance on first use only', () => {
+    const created = jest.fn();
+    class Tracked {
+      constructor() {
+        created();
+      }
+      ping() {
+        return 'pong';
+      }
+    }
+    class Caller {
+      constructor(public tracked: Tracked) {}
+    }
+    container.register(Tracked);
+    container.register(Caller, lazy(Tracked));
+
+    const caller = container.get(Caller);
+    expect(created).not.toHaveBeenCalled();
+
+    expect(caller.tracked.ping()).toBe('pong');
+    expect(caller.tracked.ping()).toBe('pong');
+    expect(created).toHaveBeenCalledTimes(1);
+  });
+
+  it('should make the proxy behave like the instance', () => {
+    container.register(EventBus, Scheduler);
+    container.register(Scheduler, lazy(EventBus));
+    const proxy = container.get(Scheduler).events;
+
+    proxy.emit('start');
+
+    expect(proxy).toBeInstanceOf(EventBus);
+    expect(proxy.handled).toBe(1);
+    expect('emit' in proxy).toBe(true);
+    expect(Object.keys(proxy).sort()).toEqual(['received', 'scheduler']);
+    expect(proxy.emit).toBe(proxy.emit);
+  });
+
+  it('should inject a getter with lazyGetter()', () => {
+    container.register(EventBus, Scheduler);
+    container.register(Scheduler, lazy(EventBus));
+    container.register(Clock, lazyGetter(EventBus));
+
+    const clock = container.get(Clock);
+
+    expect(clock.events()).toBe(container.get(EventBus));
+    expect(clock.events()).toBe(clock.events());
+  });
+
+  it('should still reject cycles made only of eager edges', () => {
+    container.register(EventBus, Scheduler);
+    container.register(Scheduler, EventBus);
+
+    expect(() => container.get(EventBus)).toThrow('Circular dependency detected: EventBus -> Scheduler -> EventBus');
+    expect(() => container.validate()).toThrow('Circular dependency detected');
+  });
+
+  it('should reject a lazy dependency used during construction of its cycle', () => {
+    container.register(EventBus, EagerScheduler);
+    container.register(EagerScheduler, lazy(EventBus));
+
+    expect(() => container.get(EventBus)).toThrow('Circular dependency detected: EventBus -> EagerScheduler -> EventBus');
+  });
+
+  it('should pass validation and initAll with a lazy cycle', async () => {
+    container.register(EventBus, Scheduler);
+    container.register(Scheduler, lazy(EventBus));
+
+    expect(() => container.validate()).not.toThrow();
+    await container.initAll({ all: true });
+
+    expect(container.inspect().nodes.every(node => node.instantiated)).toBe(true);
+  });
+
+  it('should report unregistered lazy dependencies', () => {
+    class MissingBus extends EventBus {}
+    container.register(Scheduler, lazy(MissingBus));
+
+    expect(() => container.validate()).toThrow('Dependency MissingBus is not registered for singleton Scheduler');
+  });
+
+  it('should resolve lazy dependencies of async registrations', async () => {
+    container.register(EventBus, AsyncScheduler);
+    container.register(AsyncScheduler, lazy(EventBus));
+
+    const scheduler = await container.getAsync(AsyncScheduler);
+    scheduler.events.emit('ready');
+
+    expect(container.get(EventBus).received).toEqual(['ready']);
+  });
+
+  it('should pick up overrides of lazy dependencies', () => {
+    container.register(EventBus, Scheduler);
+    container.register(Scheduler, lazy(EventBus));
+    container.get(Scheduler);
+    const fake = { emit: jest.fn() } as unknown as EventBus;
+
+    container.override(EventBus, fake);
+    container.get(Scheduler).tick();
+
+    expect(fake.emit).toHaveBeenCalledWith('tick');
+  });
+
+  it('should dispose dependents of lazy dependencies first', async () => {
+    const disposed: string[] = [];
+    class Store {
+      dispose() {
+        disposed.push('Store');
+      }
+    }
+    class Cache {
+      constructor(public store: Store) {}
+      dispose() {
+        disposed.push('Cache');
+      }
+    }
+    container.register(Cache, lazy(Store));
+    container.register(Store);
+    container.get(Cache);
+    container.get(Store);
+
+    await container.shutdown();
+
+    expect(disposed).toEqual(['Cache', 'Store']);
+  });
+
+  it('should draw lazy edges in the graph', () => {
+    container.register(EventBus, Scheduler);
+    container.register(Scheduler, lazy(EventBus));
+    const graph = container.inspect();
+
+    expect(graph.nodes[1]).toMatchObject({
+      args: ['lazy(EventBus)'],
+      dependencies: [],
+      lazyDependencies: [EventBus],
+    });
+    expect(graph.nodes[0].dependents).toEqual([Scheduler]);
+    expect(toDot(graph)).toContain('  n1 -> n0 [style=dashed];');
+    expect(toMermaid(graph)).toContain('  n1 -.-> n0');
+  });
+
+  it('should type-check lazy markers against constructor parameters', () => {
+    class Unrelated {}
+
+    // @ts-expect-error - a lazy Unrelated is not an EventBus
+    new Container().register(Scheduler, lazy(Unrelated));
+    // @ts-expect-error - Scheduler takes the instance, not a getter
+    new Container().register(Scheduler, lazyGetter(EventBus));
+    // @ts-expect-error - Clock takes a getter, not the instance
+    new Container().register(Clock, lazy(EventBus));
+
+    expect(lazyGetter(EventBus)).toBeInstanceOf(LazyMarker);
+  });
+});
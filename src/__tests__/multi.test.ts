@@ -0,0 +1,177 @@
+import { Container, SingletonRegistry, all, createToken } from '../index';
+
+class HealthCheck {
+  name = 'unnamed';
+}
+
+class ConfigService {
+  constructor(public url: string = 'postgres://localhost') {}
+}
+
+class DatabaseCheck extends HealthCheck {
+  name = 'database';
+
+  constructor(public config: ConfigService) {
+    super();
+  }
+}
+
+class CacheCheck extends HealthCheck {
+  name = 'cache';
+}
+
+class DiskCheck extends HealthCheck {
+  name = 'disk';
+
+  constructor(public threshold: number) {
+    super();
+  }
+}
+
+class HealthService {
+  constructor(public checks: HealthCheck[]) {}
+}
+
+describe('Multi-bindings', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(ConfigService);
+  });
+
+  it('should return every contribution in registration order', () => {
+    container.registerMulti(HealthCheck, DatabaseCheck, ConfigService);
+    container.registerMulti(HealthCheck, CacheCheck);
+
+    const checks = container.getAll(HealthCheck);
+
+    expect(checks.map(check => check.name)).toEqual(['database', 'cache']);
+    expect((checks[0] as DatabaseCheck).config).toBe(container.get(ConfigService));
+  });
+
+  it('should order contributions by the order option', () => {
+    container.registerMulti(HealthCheck, DatabaseCheck, ConfigService);
+    container.registerMulti(HealthCheck, { order: 10 }, CacheCheck);
+    container.registerMulti(HealthCheck, { order: -1 }, DiskCheck, 90);
+
+    expect(container.getAll(HealthCheck).map(check => check.name)).toEqual(['disk', 'database', 'cache']);
+  });
+
+  it('should return an empty array without contributions', () => {
+    expect(container.getAll(HealthCheck)).toEqual([]);
+  });
+
+  it('should keep each contribution to its own lifetime', () => {
+    container.registerMulti(HealthCheck, CacheCheck);
+    container.registerMulti(HealthCheck, { lifetime: 'transient' }, DiskCheck, 90);
+
+    const [cache, disk] = container.getAll(HealthCheck);
+    const [cacheAgain, diskAgain] = container.getAll(HealthCheck);
+
+    expect(cacheAgain).toBe(cache);
+    expect(diskAgain).not.toBe(disk);
+  });
+
+  it('should inject every contribution as an array with all()', () => {
+    container.registerMulti(HealthCheck, DatabaseCheck, ConfigService);
+    container.register(HealthService, all(HealthCheck));
+    container.registerMulti(HealthCheck, CacheCheck);
+
+    expect(container.get(HealthService).checks.map(check => check.name)).toEqual(['database', 'cache']);
+  });
+
+  it('should inject an empty array without contributions', () => {
+    container.register(HealthService, all(HealthCheck));
+
+    expect(container.get(HealthService).checks).toEqual([]);
+    expect(() => container.validate()).not.toThrow();
+  });
+
+  it('should collect contributions under a token', () => {
+    const RouteToken = createToken<{ path: string }>('Route');
+    class UsersRoute {
+      path = '/users';
+    }
+    class OrdersRoute {
+      path = '/orders';
+    }
+
+    container.registerMulti(RouteToken, UsersRoute);
+    container.registerMulti(RouteToken, OrdersRoute);
+
+    expect(container.getAll(RouteToken).map(route => route.path)).toEqual(['/users', '/orders']);
+  });
+
+  it('should await async contributions with getAllAsync()', async () => {
+    class WarmCheck extends HealthCheck {
+      name = 'warm';
+      ready = false;
+
+      async onInit() {
+        this.ready = true;
+      }
+    }
+    container.registerMulti(HealthCheck, WarmCheck);
+
+    expect(() => container.getAll(HealthCheck)).toThrow('requires async initialization');
+    const [check] = (await container.getAllAsync(HealthCheck)) as WarmCheck[];
+    expect(check.ready).toBe(true);
+  });
+
+  it('should add child contributions after the parent ones', () => {
+    container.registerMulti(HealthCheck, CacheCheck);
+    const child = container.createChild();
+    child.registerMulti(HealthCheck, DiskCheck, 90);
+
+    expect(child.getAll(HealthCheck).map(check => check.name)).toEqual(['cache', 'disk']);
+    expect(child.getAll(HealthCheck)[0]).toBe(container.getAll(HealthCheck)[0]);
+    expect(container.getAll(HealthCheck).map(check => check.name)).toEqual(['cache']);
+  });
+
+  it('should dispose dependents before contributions', async () => {
+    const disposed: string[] = [];
+    class ClosingCheck extends HealthCheck {
+      name = 'closing';
+      dispose() {
+        disposed.push('check');
+      }
+    }
+    class ClosingHealthService extends HealthService {
+      dispose() {
+        disposed.push('service');
+      }
+    }
+    container.registerMulti(HealthCheck, ClosingCheck);
+    container.register(ClosingHealthService, all(HealthCheck));
+    container.get(ClosingHealthService);
+
+    await container.shutdown();
+
+    expect(disposed).toEqual(['service', 'check']);
+  });
+
+  it('should require a contributing class', () => {
+    expect(() => (container.registerMulti as Function)(HealthCheck, { order: 1 })).toThrow(
+      'Multi-bindings of HealthCheck must be registered with an implementing class'
+    );
+  });
+
+  it('should not accept options that only apply to a key of its own', () => {
+    const register = () => {
+      // @ts-expect-error contributions cannot be stable, since replace() cannot reach them
+      container.registerMulti(HealthCheck, { stable: true }, CacheCheck);
+      // @ts-expect-error contributions have no name of their own
+      container.registerMulti(HealthCheck, { key: 'cache' }, CacheCheck);
+    };
+
+    expect(register).toBeInstanceOf(Function);
+  });
+
+  it('should be available through SingletonRegistry', () => {
+    SingletonRegistry.clear();
+    SingletonRegistry.registerMulti(HealthCheck, CacheCheck);
+
+    expect(SingletonRegistry.getAll(HealthCheck)).toEqual([expect.any(CacheCheck)]);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  Container,
+  Singleton,
+  SingletonRegistry,
+  createToken,
+  initializeGlobalAccess,
+  literal,
+  named,
+  options,
+  registerGlobalSingleton,
+} from '../index';
+
+class DatabaseService {
+  constructor(public url: string) {}
+}
+
+class ReportService {
+  constructor(public db: DatabaseService) {}
+}
+
+describe('Named registrations', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(DatabaseService, options({ key: 'primary' }), 'postgres://primary');
+    container.register(DatabaseService, options({ key: 'replica' }), 'postgres://replica');
+  });
+
+  it('should keep a separate singleton per name', () => {
+    const primary = container.get(DatabaseService, 'primary');
+    const replica = container.get(DatabaseService, 'replica');
+
+    expect(primary.url).toBe('postgres://primary');
+    expect(replica.url).toBe('postgres://replica');
+    expect(container.get(DatabaseService, 'replica')).toBe(replica);
+  });
+
+  it('should keep the unnamed registration separate', () => {
+    container.register(DatabaseService, 'postgres://default');
+
+    expect(container.get(DatabaseService).url).toBe('postgres://default');
+    expect(container.isRegistered(DatabaseService, 'analytics')).toBe(false);
+    expect(container.isRegistered(DatabaseService, 'replica')).toBe(true);
+  });
+
+  it('should inject named instances with named()', () => {
+    container.register(ReportService, named(DatabaseService, 'replica'));
+
+    expect(container.get(ReportService).db).toBe(container.get(DatabaseService, 'replica'));
+  });
+
+  it('should give the same key for the same name', () => {
+    expect(named(DatabaseService, 'replica')).toBe(named(DatabaseService, 'replica'));
+    expect(container.get(named(DatabaseService, 'primary'))).toBe(container.get(DatabaseService, 'primary'));
+  });
+
+  it('should name instances in error messages', () => {
+    expect(() => container.get(DatabaseService, 'analytics')).toThrow(
+      'Singleton DatabaseService(analytics) is not registered'
+    );
+    expect(() => container.register(DatabaseService, options({ key: 'replica' }), 'postgres://other')).toThrow(
+      'Singleton DatabaseService(replica) is already registered'
+    );
+  });
+
+  it('should take a plain key object as options, unless it is wrapped in literal()', () => {
+    class Cache {
+      constructor(public settings: { key: string } = { key: 'default' }) {}
+    }
+
+    container.register(Cache, { key: 'sessions' });
+    container.register(Cache, literal({ key: 'tokens' }));
+
+    expect(container.get(Cache, 'sessions').settings).toEqual({ key: 'default' });
+    expect(container.get(Cache).settings).toEqual({ key: 'tokens' });
+  });
+
+  it('should name factories and token registrations', async () => {
+    const UrlToken = createToken<{ href: string }>('Url');
+    class PostgresUrl {
+      href = 'postgres://token';
+    }
+    container.registerFactory(DatabaseService, async () => new DatabaseService('postgres://analytics'), {
+      key: 'analytics',
+    });
+    container.register(UrlToken, options({ key: 'audit' }), PostgresUrl);
+
+    expect((await container.getAsync(DatabaseService, 'analytics')).url).toBe('postgres://analytics');
+    expect(container.get(UrlToken, 'audit').href).toBe('postgres://token');
+  });
+
+  it('should override a single named instance', () => {
+    container.override(named(DatabaseService, 'replica'), new DatabaseService('postgres://fake'));
+
+    expect(container.get(DatabaseService, 'replica').url).toBe('postgres://fake');
+    expect(container.get(DatabaseService, 'primary').url).toBe('postgres://primary');
+  });
+});
+
+describe('Named Global access', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    initializeGlobalAccess();
+  });
+
+  it('should map each Global name to a named instance', () => {
+    registerGlobalSingleton('PrimaryDb', DatabaseService, options({ key: 'primary' }), 'postgres://primary');
+    registerGlobalSingleton('ReplicaDb', DatabaseService, options({ key: 'replica' }), 'postgres://replica');
+    registerGlobalSingleton('AnalyticsDb', named(DatabaseService, 'replica'));
+
+    const globals = (globalThis as any).Global;
+    expect(globals.PrimaryDb.url).toBe('postgres://primary');
+    expect(globals.ReplicaDb).toBe(SingletonRegistry.get(DatabaseService, 'replica'));
+    expect(globals.AnalyticsDb).toBe(globals.ReplicaDb);
+  });
+
+  it('should expose the named instance a decorator registers', () => {
+    @Singleton({ key: 'audit', global: 'AuditLog', args: ['audit.log'] })
+    class LogService {
+      constructor(public file: string) {}
+    }
+
+    expect((globalThis as any).Global.AuditLog).toBe(SingletonRegistry.get(LogService, 'audit'));
+  });
+});
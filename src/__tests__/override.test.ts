@@ -0,0 +1,271 @@
+import {
+  Container,
+  SingletonRegistry,
+  autoRestoreOverrides,
+  createToken,
+  initializeGlobalAccess,
+  registerGlobalSingleton,
+  restoreOverrides,
+} from '../index';
+
+class ConfigService {
+  constructor(public url: string = 'https://api.example.com') {}
+}
+
+class ApiService {
+  constructor(public config: ConfigService) {}
+}
+
+class ReportService {
+  constructor(public api: ApiService) {}
+}
+
+describe('Overrides', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(ConfigService);
+    container.register(ApiService, ConfigService);
+    container.register(ReportService, ApiService);
+  });
+
+  afterEach(() => {
+    restoreOverrides();
+  });
+
+  it('should replace a registration with a value', () => {
+    const fake = new ConfigService('https://fake.test');
+
+    container.override(ConfigService, fake);
+
+    expect(container.get(ConfigService)).toBe(fake);
+    expect(container.get(ApiService).config).toBe(fake);
+  });
+
+  it('should replace a registration with a factory', () => {
+    container.override(ApiService, resolve => new ApiService(new ConfigService(`${resolve(ConfigService).url}/v2`)));
+
+    expect(container.get(ApiService).config.url).toBe('https://api.example.com/v2');
+    expect(container.get(ApiService)).toBe(container.get(ApiService));
+  });
+
+  it('should construct class replacements rather than call them', () => {
+    class FakeConfig extends ConfigService {
+      constructor() {
+        super('https://fake.test');
+      }
+    }
+
+    container.override(ConfigService, FakeConfig);
+
+    expect(container.get(ConfigService)).toBeInstanceOf(FakeConfig);
+    expect(container.get(ApiService).config.url).toBe('https://fake.test');
+    expect(container.get(ConfigService)).toBe(container.get(ConfigService));
+  });
+
+  it('should call plain function replacements as factories', () => {
+    container.override(ConfigService, function () {
+      return new ConfigService('https://factory.test');
+    });
+
+    expect(container.get(ConfigService).url).toBe('https://factory.test');
+  });
+
+  it('should point stable proxies handed out before at the override until it is restored', () => {
+    const stableContainer = new Container();
+    stableContainer.register(ConfigService, { stable: true });
+    const config = stableContainer.get(ConfigService);
+
+    const handle = stableContainer.override(ConfigService, new ConfigService('https://fake.test'));
+    expect(config.url).toBe('https://fake.test');
+    expect(stableContainer.get(ConfigService)).toBe(config);
+
+    const factory = stableContainer.override(ConfigService, () => new ConfigService('https://factory.test'));
+    expect(config.url).toBe('https://factory.test');
+
+    factory.restore();
+    expect(config.url).toBe('https://fake.test');
+    handle.restore();
+    expect(config.url).toBe('https://api.example.com');
+  });
+
+  it('should bring back the original behind a stable proxy when overrides are restored out of order', () => {
+    const stableContainer = new Container();
+    stableContainer.register(ConfigService, { stable: true });
+    const config = stableContainer.get(ConfigService);
+    const first = stableContainer.override(ConfigService, new ConfigService('https://first.test'));
+    const second = stableContainer.override(ConfigService, new ConfigService('https://second.test'));
+
+    first.restore();
+    expect(config.url).toBe('https://second.test');
+    second.restore();
+    expect(config.url).toBe('https://api.example.com');
+  });
+
+  it('should invalidate dependents that were built from the original', () => {
+    const original = container.get(ReportService);
+
+    container.override(ConfigService, new ConfigService('https://fake.test'));
+    const overridden = container.get(ReportService);
+
+    expect(overridden).not.toBe(original);
+    expect(overridden.api.config.url).toBe('https://fake.test');
+  });
+
+  it('should restore the original registration and its instance', () => {
+    const config = container.get(ConfigService);
+    const handle = container.override(ConfigService, new ConfigService('https://fake.test'));
+    expect(container.get(ReportService).api.config.url).toBe('https://fake.test');
+
+    handle.restore();
+
+    expect(container.get(ConfigService)).toBe(config);
+    expect(container.get(ReportService).api.config).toBe(config);
+  });
+
+  it('should ignore repeated restores', () => {
+    const handle = container.override(ConfigService, new ConfigService('first'));
+    const second = container.override(ConfigService, new ConfigService('second'));
+
+    handle.restore();
+    handle.restore();
+
+    expect(container.get(ConfigService).url).toBe('second');
+    second.restore();
+    expect(container.get(ConfigService).url).toBe('https://api.example.com');
+  });
+
+  it('should override tokens', () => {
+    const ClockToken = createToken<() => number>('Clock');
+    container.registerValue(ClockToken, () => Date.now());
+
+    container.override(ClockToken, () => () => 0);
+
+    expect(container.get(ClockToken)()).toBe(0);
+  });
+
+  it('should refuse to override unregistered keys', () => {
+    class UnknownService {}
+
+    expect(() => container.override(UnknownService, new UnknownService())).toThrow(
+      'Singleton UnknownService is not registered'
+    );
+  });
+
+  it('should override a parent registration in a child container only', () => {
+    const child = container.createChild();
+
+    child.override(ConfigService, new ConfigService('https://child.test'));
+
+    expect(child.get(ReportService).api.config.url).toBe('https://child.test');
+    expect(container.get(ReportService).api.config.url).toBe('https://api.example.com');
+
+    restoreOverrides();
+
+    expect(child.get(ReportService)).toBe(container.get(ReportService));
+  });
+
+  it('should invalidate dependents that child containers built from the original', () => {
+    const child = container.createChild();
+    child.register(ReportService, ApiService);
+    const shadowing = container.createChild();
+    shadowing.register(ConfigService, 'https://shadow.test');
+    shadowing.register(ApiService, ConfigService);
+    const report = child.get(ReportService);
+    const shadowed = shadowing.get(ApiService);
+
+    const handle = container.override(ConfigService, new ConfigService('https://override.test'));
+
+    expect(child.get(ReportService)).not.toBe(report);
+    expect(child.get(ReportService).api.config.url).toBe('https://override.test');
+    expect(shadowing.get(ApiService)).toBe(shadowed);
+
+    handle.restore();
+
+    expect(child.get(ReportService).api.config.url).toBe('https://api.example.com');
+  });
+
+  it('should restore overrides after withOverrides settles', async () => {
+    const fake = new ConfigService('https://fake.test');
+
+    const url = await container.withOverrides([[ConfigService, fake]], async () => {
+      return container.get(ApiService).config.url;
+    });
+
+    expect(url).toBe('https://fake.test');
+    expect(container.get(ApiService).config.url).toBe('https://api.example.com');
+  });
+
+  it('should restore overrides when the withOverrides function throws', async () => {
+    await expect(
+      container.withOverrides([[ConfigService, new ConfigService('fake')]], () => {
+        throw new Error('test failed');
+      })
+    ).rejects.toThrow('test failed');
+
+    expect(container.get(ConfigService).url).toBe('https://api.example.com');
+  });
+
+  it('should restore every active override with restoreOverrides()', () => {
+    container.override(ConfigService, new ConfigService('fake'));
+    container.override(ApiService, new ApiService(new ConfigService('other')));
+
+    restoreOverrides();
+
+    expect(container.get(ReportService).api.config.url).toBe('https://api.example.com');
+  });
+});
+
+describe('SingletonRegistry overrides', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    initializeGlobalAccess();
+    registerGlobalSingleton('ConfigService', ConfigService);
+    registerGlobalSingleton('ApiService', ApiService, ConfigService);
+  });
+
+  afterEach(() => {
+    restoreOverrides();
+  });
+
+  it('should override registrations seen through Global', () => {
+    SingletonRegistry.override(ConfigService, new ConfigService('https://fake.test'));
+
+    expect((globalThis as any).Global.ApiService.config.url).toBe('https://fake.test');
+  });
+
+  it('should accept overrides by Global name', async () => {
+    await SingletonRegistry.withOverrides({ ConfigService: new ConfigService('by-name') }, () => {
+      expect((globalThis as any).Global.ApiService.config.url).toBe('by-name');
+    });
+
+    expect((globalThis as any).Global.ApiService.config.url).toBe('https://api.example.com');
+  });
+
+  it('should reject unknown Global names', async () => {
+    await expect(SingletonRegistry.withOverrides({ MailService: {} }, () => {})).rejects.toThrow(
+      'Global name MailService is not registered'
+    );
+  });
+});
+
+describe('autoRestoreOverrides()', () => {
+  const container = new Container();
+  container.register(ConfigService);
+
+  autoRestoreOverrides();
+
+  it('should leave overrides active during a test', () => {
+    container.override(ConfigService, new ConfigService('https://fake.test'));
+
+    expect(container.get(ConfigService).url).toBe('https://fake.test');
+  });
+
+  it('should have restored the previous test override', () => {
+    expect(container.get(ConfigService).url).toBe('https://api.example.com');
+  });
+});
@@ -0,0 +1,234 @@
+import { Container, SingletonRegistry, createToken, named, options } from '../index';
+
+interface Mailer {
+  readonly kind: string;
+}
+
+class SmtpMailer implements Mailer {
+  kind = 'smtp';
+}
+
+class FakeMailer implements Mailer {
+  kind = 'fake';
+}
+
+class LogMailer implements Mailer {
+  kind = 'log';
+}
+
+const MailService = createToken<Mailer>('MailService');
+
+class SignupService {
+  constructor(public mailer: Mailer) {}
+}
+
+class CacheService {
+  constructor(public url: string) {}
+}
+
+describe('Profiles and conditional registrations', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  it('should ignore profile registrations until a profile is activated', () => {
+    container.register(MailService, { profile: 'test' }, FakeMailer);
+
+    expect(container.isRegistered(MailService)).toBe(false);
+
+    container.activate('test');
+
+    expect(container.get(MailService).kind).toBe('fake');
+  });
+
+  it('should prefer an active profile registration over an unconditional one', () => {
+    container.register(MailService, SmtpMailer);
+    container.register(MailService, { profile: ['dev', 'test'] }, FakeMailer);
+    container.register(MailService, { profile: 'staging' }, LogMailer);
+
+    expect(container.get(MailService).kind).toBe('smtp');
+
+    container.activate('dev');
+    expect(container.get(MailService).kind).toBe('fake');
+
+    container.activate('staging');
+    expect(container.get(MailService).kind).toBe('log');
+
+    container.activate();
+    expect(container.get(MailService).kind).toBe('smtp');
+  });
+
+  it('should prefer the most specific active registration', () => {
+    let offline = true;
+    container.register(MailService, { profile: 'dev' }, FakeMailer);
+    container.register(MailService, { profile: 'dev', when: () => offline }, LogMailer);
+    container.activate('dev');
+
+    expect(container.get(MailService).kind).toBe('log');
+
+    offline = false;
+    container.activate('dev');
+
+    expect(container.get(MailService).kind).toBe('fake');
+  });
+
+  it('should let a later registration win a tie', () => {
+    container.register(MailService, { when: () => true }, FakeMailer);
+    container.register(MailService, { when: () => true }, LogMailer);
+
+    expect(container.get(MailService).kind).toBe('log');
+  });
+
+  it('should choose between registrations of a class', () => {
+    container.register(CacheService, 'redis://cache');
+    container.register(CacheService, { profile: 'test' }, 'memory://');
+    container.registerFactory(CacheService, () => new CacheService('memory://offline'), { when: () => true, profile: 'test' });
+
+    expect(container.get(CacheService).url).toBe('redis://cache');
+    container.activate('test');
+    expect(container.get(CacheService).url).toBe('memory://offline');
+  });
+
+  it('should still refuse a second unconditional registration', () => {
+    container.register(MailService, { profile: 'test' }, FakeMailer);
+    container.register(MailService, SmtpMailer);
+
+    expect(() => container.register(MailService, LogMailer)).toThrow('Singleton MailService is already registered');
+  });
+
+  it('should rebuild dependents when the selection changes', () => {
+    container.register(MailService, SmtpMailer);
+    container.register(MailService, { profile: 'test' }, FakeMailer);
+    container.register(SignupService, MailService);
+    const before = container.get(SignupService);
+
+    container.activate('test');
+
+    expect(container.get(SignupService)).not.toBe(before);
+    expect(container.get(SignupService).mailer.kind).toBe('fake');
+  });
+
+  it('should use the parent profiles in a child container', () => {
+    container.activate('test');
+    const child = container.createChild();
+    child.register(MailService, { profile: 'test' }, FakeMailer);
+
+    expect(child.get(MailService).kind).toBe('fake');
+  });
+
+  it('should select again in a child container when the parent activates profiles', () => {
+    const child = container.createChild();
+    child.register(MailService, SmtpMailer);
+    child.register(MailService, { profile: 'test' }, FakeMailer);
+    expect(child.get(MailService).kind).toBe('smtp');
+
+    container.activate('test');
+
+    expect(child.get(MailService).kind).toBe('fake');
+  });
+
+  it('should deactivate profiles on clear()', () => {
+    container.activate('test');
+
+    container.clear();
+    container.register(MailService, SmtpMailer);
+    container.register(MailService, { profile: 'test' }, FakeMailer);
+
+    expect(container.get(MailService).kind).toBe('smtp');
+  });
+
+  it('should keep overrides on top of the selection', () => {
+    container.register(MailService, SmtpMailer);
+    container.register(MailService, { profile: 'test' }, FakeMailer);
+    const handle = container.override(MailService, new LogMailer());
+
+    container.activate('test');
+    expect(container.get(MailService).kind).toBe('log');
+
+    handle.restore();
+    expect(container.get(MailService).kind).toBe('fake');
+  });
+
+  it('should select named registrations separately', () => {
+    container.register(MailService, options({ key: 'alerts' }), SmtpMailer);
+    container.register(MailService, options({ key: 'alerts', profile: 'test' }), FakeMailer);
+    container.activate('test');
+
+    expect(container.get(MailService, 'alerts').kind).toBe('fake');
+    expect(container.get(named(MailService, 'alerts'))).toBe(container.get(MailService, 'alerts'));
+  });
+
+  it('should be restored by snapshots', async () => {
+    container.register(MailService, SmtpMailer);
+    const snapshot = container.snapshot();
+
+    container.register(MailService, { profile: 'test' }, FakeMailer);
+    container.activate('test');
+    await container.restore(snapshot);
+
+    expect(container.get(MailService).kind).toBe('smtp');
+    container.register(MailService, { profile: 'test' }, FakeMailer);
+    expect(container.get(MailService).kind).toBe('smtp');
+  });
+
+  describe('explain()', () => {
+    it('should explain which registration was selected and why', () => {
+      container.register(MailService, SmtpMailer);
+      container.register(MailService, { profile: 'test' }, FakeMailer);
+      container.register(MailService, { profile: 'dev', when: () => false }, LogMailer);
+      container.activate('test', 'dev');
+
+      const explanation = container.explain(MailService);
+
+      expect(explanation.selected?.implementation).toBe('FakeMailer');
+      expect(explanation.activeProfiles).toEqual(['test', 'dev']);
+      expect(explanation.message).toBe([
+        'MailService resolves to FakeMailer; active profiles: test, dev',
+        '  - SmtpMailer (unconditional): outranked by FakeMailer',
+        '  - FakeMailer (profile test): selected because profile test is active',
+        '  - LogMailer (profile dev, when): inactive because its when() condition is false',
+      ].join('\n'));
+    });
+
+    it('should explain keys without an active registration', () => {
+      container.register(MailService, { profile: 'test' }, FakeMailer);
+
+      expect(container.explain(MailService).message).toBe([
+        'MailService has no active registration; no profiles are active',
+        '  - FakeMailer (profile test): inactive because profile test is not active',
+      ].join('\n'));
+      expect(container.explain(SignupService).message).toBe('SignupService is not registered; no profiles are active');
+    });
+
+    it('should explain overrides and plain registrations', () => {
+      container.register(MailService, SmtpMailer);
+      container.override(MailService, new FakeMailer());
+
+      expect(container.explain(MailService).message).toBe([
+        'MailService resolves to value; no profiles are active',
+        '  - value (unconditional): selected because it overrides the registration',
+        '  - SmtpMailer (unconditional): overridden, though it is unconditional',
+      ].join('\n'));
+    });
+
+    it('should explain parent registrations from a child container', () => {
+      container.register(MailService, SmtpMailer);
+
+      expect(container.createChild().explain(MailService).selected?.implementation).toBe('SmtpMailer');
+    });
+  });
+
+  it('should activate profiles through SingletonRegistry', () => {
+    SingletonRegistry.clear();
+    SingletonRegistry.register(MailService, SmtpMailer);
+    SingletonRegistry.register(MailService, { profile: 'test' }, FakeMailer);
+
+    SingletonRegistry.activate('test');
+
+    expect(SingletonRegistry.get(MailService).kind).toBe('fake');
+    expect(SingletonRegistry.explain(MailService).selected?.implementation).toBe('FakeMailer');
+    SingletonRegistry.activate();
+  });
+});
@@ -0,0 +1,94 @@
+import { expectTypeOf } from 'expect-type';
+import {
+  Container,
+  Injectable,
+  OptionsMarker,
+  RegisterArgs,
+  RegistrationOptions,
+  SingletonRegistry,
+  createToken,
+  defineGlobals,
+  inject,
+  literal,
+  registerGlobalSingleton,
+} from '../index';
+
+interface Logger {
+  log(message: string): void;
+}
+
+class ConfigService {
+  constructor(public url: string, public timeout?: number) {}
+}
+
+class ApiService {
+  constructor(public config: ConfigService, public retries: number) {}
+}
+
+class ConsoleLogger implements Logger {
+  constructor(public config: ConfigService) {}
+
+  log(message: string) {}
+}
+
+class ErrorReporter {
+  constructor(public errorType: typeof Error) {}
+}
+
+const LoggerToken = createToken<Logger>('Logger');
+const RetriesToken = createToken<number>('Retries');
+
+describe('register() argument types', () => {
+  it('should map constructor parameters to values or keys that resolve to them', () => {
+    expectTypeOf<typeof ConfigService>().toExtend<Injectable<ConfigService>>();
+    expectTypeOf<typeof RetriesToken>().toExtend<Injectable<number>>();
+    expectTypeOf<typeof ApiService>().not.toExtend<Injectable<ConfigService>>();
+    expectTypeOf<RegisterArgs<typeof ConfigService>>().toEqualTypeOf<
+      | [url: Injectable<string>, timeout?: Injectable<number | undefined>]
+      | [
+          options: RegistrationOptions | OptionsMarker<RegistrationOptions>,
+          url: Injectable<string>,
+          timeout?: Injectable<number | undefined>,
+        ]
+    >();
+  });
+
+  it('should accept arguments that match the constructor', () => {
+    const container = new Container();
+
+    container.register(ConfigService, 'https://api.example.com');
+    container.register(ApiService, { lifetime: 'transient' }, ConfigService, RetriesToken);
+    container.register(LoggerToken, ConsoleLogger, inject(ConfigService));
+    container.register(ErrorReporter, literal(TypeError));
+    SingletonRegistry.register(ConfigService, { eager: true }, 'https://api.example.com', 5000);
+    registerGlobalSingleton('Logger', LoggerToken);
+
+    expect(container.isRegistered(LoggerToken)).toBe(true);
+  });
+
+  it('should reject arguments that do not match the constructor', () => {
+    // Only type-checked: each call is a compile error
+    const rejected = (container: Container) => {
+      // @ts-expect-error - timeout must be a number
+      container.register(ConfigService, 'https://api.example.com', '5000');
+      // @ts-expect-error - retries is missing
+      container.register(ApiService, ConfigService);
+      // @ts-expect-error - too many arguments
+      container.register(ConfigService, 'https://api.example.com', 5000, true);
+      // @ts-expect-error - ApiService does not resolve to a ConfigService
+      container.register(ApiService, ApiService, 3);
+      // @ts-expect-error - LoggerToken does not resolve to a number
+      container.register(ApiService, ConfigService, LoggerToken);
+      // @ts-expect-error - ApiService does not implement Logger
+      container.register(LoggerToken, ApiService, ConfigService, 3);
+      // @ts-expect-error - ConsoleLogger needs a ConfigService
+      SingletonRegistry.register(LoggerToken, ConsoleLogger, 'https://api.example.com');
+      // @ts-expect-error - url must be a string
+      registerGlobalSingleton('ConfigService', ConfigService, 8080);
+      // @ts-expect-error - defineGlobals checks its tuples like registerGlobalSingleton: url must be a string
+      defineGlobals({ ConfigService: [ConfigService, 8080, 'x'] });
+    };
+
+    expect(rejected).toBeInstanceOf(Function);
+  });
+});
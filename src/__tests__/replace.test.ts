@@ -0,0 +1,329 @@
+import {
+  Container,
+  SingletonRegistry,
+  Singletons,
+  createToken,
+  initializeGlobalAccess,
+  registerGlobalSingleton,
+} from '../index';
+
+class ConfigService {
+  public disposed = false;
+  #secret = 'secret';
+
+  constructor(public url: string = 'https://api.example.com') {}
+
+  endpoint(path: string): string {
+    return `${this.url}${path}`;
+  }
+
+  get secret(): string {
+    return this.#secret;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+  }
+}
+
+class ApiService {
+  constructor(public config: ConfigService) {}
+
+  fetch(path: string): string {
+    return this.config.endpoint(path);
+  }
+}
+
+describe('Container.replace()', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  it('should keep handing out the same proxy for stable registrations', async () => {
+    container.register(ConfigService, { stable: true });
+    container.register(ApiService, ConfigService);
+    const config = container.get(ConfigService);
+    const api = container.get(ApiService);
+
+    await container.replace(ConfigService, new ConfigService('https://staging.example.com'));
+
+    expect(container.get(ConfigService)).toBe(config);
+    expect(container.get(ApiService)).toBe(api);
+    expect(config.url).toBe('https://staging.example.com');
+    expect(api.fetch('/users')).toBe('https://staging.example.com/users');
+  });
+
+  it('should keep the stable proxy usable as the instance', () => {
+    container.register(ConfigService, { stable: true });
+    const config = container.get(ConfigService);
+
+    expect(config).toBeInstanceOf(ConfigService);
+    expect(config.secret).toBe('secret');
+    expect(config.endpoint).toBe(config.endpoint);
+    const { endpoint } = config;
+    expect(endpoint('/users')).toBe('https://api.example.com/users');
+  });
+
+  it('should create the new instance from constructor arguments', async () => {
+    container.register(ConfigService, { stable: true });
+    const config = container.get(ConfigService);
+
+    await container.replace(ConfigService, ['https://staging.example.com']);
+
+    expect(config.url).toBe('https://staging.example.com');
+  });
+
+  it('should build the singleton from the new constructor arguments from then on', async () => {
+    container.register(ConfigService, 'https://api.example.com');
+    container.get(ConfigService);
+
+    await container.replace(ConfigService, ['https://staging.example.com']);
+    await container.shutdown();
+
+    expect(container.get(ConfigService).url).toBe('https://staging.example.com');
+  });
+
+  it('should inject dependencies among the constructor arguments', async () => {
+    container.register(ConfigService);
+    container.register(ApiService, { stable: true }, ConfigService);
+    const api = container.get(ApiService);
+    const config = new ConfigService('https://staging.example.com');
+    const StagingConfig = createToken<ConfigService>('StagingConfig');
+    container.registerValue(StagingConfig, config);
+
+    await container.replace(ApiService, [StagingConfig]);
+
+    expect(api.config).toBe(config);
+    expect(container.inspect().nodes.find(node => node.key === ApiService)?.dependencies).toEqual([StagingConfig]);
+  });
+
+  it('should re-create the dependents of registrations that are not stable', async () => {
+    container.register(ConfigService);
+    container.register(ApiService, ConfigService);
+    const api = container.get(ApiService);
+    const replacement = new ConfigService('https://staging.example.com');
+
+    await container.replace(ConfigService, replacement);
+
+    expect(container.get(ConfigService)).toBe(replacement);
+    expect(container.get(ApiService)).not.toBe(api);
+    expect(container.get(ApiService).config).toBe(replacement);
+  });
+
+  it('should notify listeners, then dispose the old instance', async () => {
+    container.register(ConfigService);
+    const old = container.get(ConfigService);
+    const events: string[] = [];
+    container.onReplace(ConfigService, (instance, previous) => {
+      events.push(`${previous?.url} -> ${instance.url} (disposed: ${previous?.disposed})`);
+    });
+
+    await container.replace(ConfigService, ['https://staging.example.com']);
+
+    expect(events).toEqual(['https://api.example.com -> https://staging.example.com (disposed: false)']);
+    expect(old.disposed).toBe(true);
+  });
+
+  it('should dispose the instance behind a stable proxy', async () => {
+    container.register(ConfigService, { stable: true });
+    const config = container.get(ConfigService);
+    let previous: ConfigService | undefined;
+    container.onReplace(ConfigService, (instance, old) => (previous = old));
+
+    await container.replace(ConfigService, new ConfigService('https://staging.example.com'));
+
+    expect(previous).not.toBe(config);
+    expect(previous?.disposed).toBe(true);
+    expect(config.disposed).toBe(false);
+  });
+
+  it('should leave registered values to their owner', async () => {
+    const value = new ConfigService();
+    container.registerValue(ConfigService, value);
+
+    await container.replace(ConfigService, new ConfigService('https://staging.example.com'));
+
+    expect(value.disposed).toBe(false);
+  });
+
+  it('should report no previous instance when none was created yet', async () => {
+    container.register(ConfigService, { stable: true });
+    const previous: (ConfigService | undefined)[] = [];
+    container.onReplace(ConfigService, (instance, old) => previous.push(old));
+
+    await container.replace(ConfigService, ['https://staging.example.com']);
+
+    expect(previous).toEqual([undefined]);
+    expect(container.get(ConfigService).url).toBe('https://staging.example.com');
+  });
+
+  it('should stop calling removed listeners', async () => {
+    container.register(ConfigService);
+    const listener = jest.fn();
+    const remove = container.onReplace(ConfigService, listener);
+
+    remove();
+    await container.replace(ConfigService, new ConfigService());
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should replace keys registered in a parent container there', async () => {
+    container.register(ConfigService, { stable: true });
+    const child = container.createChild();
+    const config = child.get(ConfigService);
+
+    await child.replace(ConfigService, ['https://staging.example.com']);
+
+    expect(container.get(ConfigService)).toBe(config);
+    expect(config.url).toBe('https://staging.example.com');
+  });
+
+  it('should notify listeners added in a child of keys registered in the parent', async () => {
+    container.register(ConfigService);
+    const child = container.createChild();
+    const listener = jest.fn();
+    const remove = child.onReplace(ConfigService, listener);
+
+    await container.replace(ConfigService, ['https://staging.example.com']);
+    remove();
+    await child.replace(ConfigService, ['https://api.example.com']);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].url).toBe('https://staging.example.com');
+  });
+
+  it('should let the stable proxy create a new instance after shutdown', async () => {
+    const dispose = jest.spyOn(ConfigService.prototype, 'dispose');
+    container.register(ConfigService, { stable: true });
+    const config = container.get(ConfigService);
+    expect(config.url).toBe('https://api.example.com');
+
+    await container.shutdown();
+
+    expect(dispose).toHaveBeenCalledTimes(1);
+    expect(config.disposed).toBe(false);
+    expect(container.get(ConfigService)).toBe(config);
+
+    await container.replace(ConfigService, ['https://staging.example.com']);
+
+    expect(dispose).toHaveBeenCalledTimes(2);
+    dispose.mockRestore();
+  });
+
+  it('should be undone by restoring a snapshot of a stable registration', async () => {
+    container.register(ConfigService, { stable: true });
+    const config = container.get(ConfigService);
+    const snapshot = container.snapshot();
+
+    await container.replace(ConfigService, ['https://staging.example.com']);
+    await container.restore(snapshot);
+
+    expect(config.url).toBe('https://api.example.com');
+    expect(config.disposed).toBe(false);
+    expect(container.get(ConfigService)).toBe(config);
+  });
+
+  it('should leave instances a snapshot keeps for restore() to bring back', async () => {
+    container.register(ConfigService);
+    const original = container.get(ConfigService);
+    const snapshot = container.snapshot();
+
+    await container.replace(ConfigService, ['https://staging.example.com']);
+    const replacement = container.get(ConfigService);
+    await container.restore(snapshot);
+
+    expect(original.disposed).toBe(false);
+    expect(replacement.disposed).toBe(true);
+    expect(container.get(ConfigService)).toBe(original);
+
+    await container.shutdown();
+    expect(container.get(ConfigService).url).toBe('https://api.example.com');
+  });
+
+  it('should drop listeners on clear()', async () => {
+    container.register(ConfigService);
+    const listener = jest.fn();
+    container.onReplace(ConfigService, listener);
+
+    container.clear();
+    container.register(ConfigService);
+    await container.replace(ConfigService, ['https://staging.example.com']);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should throw for keys that are not registered', async () => {
+    await expect(container.replace(ConfigService, [])).rejects.toThrow('Singleton ConfigService is not registered');
+  });
+
+  it('should only replace singletons', async () => {
+    container.register(ConfigService, { lifetime: 'transient' });
+
+    await expect(container.replace(ConfigService, [])).rejects.toThrow(
+      'Transient ConfigService cannot be replaced; only singletons have one instance to swap'
+    );
+    expect(() => container.register(ApiService, { lifetime: 'scoped', stable: true }, ConfigService)).toThrow(
+      'Scoped ApiService cannot be stable; only singletons can be replaced'
+    );
+  });
+
+  it('should only take constructor arguments for class registrations', async () => {
+    const ConfigToken = createToken<{ url: string }>('Config');
+    container.registerFactory(ConfigToken, () => ({ url: 'https://api.example.com' }));
+
+    await expect(container.replace(ConfigToken, ['https://staging.example.com'])).rejects.toThrow(
+      'Singleton Config is not a class registration; replace it with an instance rather than constructor arguments'
+    );
+  });
+
+  it('should refuse stable registrations of values that are not objects', () => {
+    const PortToken = createToken<number>('Port');
+    container.registerFactory(PortToken, () => 8080, { stable: true });
+
+    expect(() => container.get(PortToken)).toThrow('Stable singleton Port must be an object, not number');
+  });
+
+  it('should run new instances through the interceptors', async () => {
+    const calls: string[] = [];
+    container.register(ConfigService, {
+      stable: true,
+      intercept: [invocation => {
+        calls.push(invocation.method);
+        return invocation.proceed();
+      }],
+    });
+    const config = container.get(ConfigService);
+
+    await container.replace(ConfigService, ['https://staging.example.com']);
+
+    expect(config.endpoint('/users')).toBe('https://staging.example.com/users');
+    // The old instance is disposed through its interceptors too
+    expect(calls).toEqual(['dispose', 'endpoint']);
+  });
+});
+
+describe('Singletons.replace()', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    initializeGlobalAccess();
+  });
+
+  it('should swap the instance behind Global references', async () => {
+    registerGlobalSingleton('Config', ConfigService, { stable: true });
+    const config = (globalThis as any).Global.Config as ConfigService;
+    const replaced = jest.fn();
+    Singletons.onReplace(ConfigService, replaced);
+
+    await Singletons.replace(ConfigService, ['https://staging.example.com']);
+
+    expect((globalThis as any).Global.Config).toBe(config);
+    expect(config.url).toBe('https://staging.example.com');
+    expect(replaced).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://staging.example.com' }), expect.anything());
+  });
+});
@@ -0,0 +1,113 @@
+import { Container, SingletonRegistry, currentScope, initializeGlobalAccess, registerGlobalSingleton, runInScope } from '../index';
+
+declare global {
+  interface GlobalSingletons {
+    RequestContext: RequestContext;
+  }
+}
+
+class RequestContext {
+  public id = Math.random();
+  public disposed = false;
+  dispose() {
+    this.disposed = true;
+  }
+}
+
+class AuditLog {
+  constructor(public context: RequestContext) {}
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('runInScope', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(RequestContext, { requestScoped: true });
+    container.register(AuditLog, { lifetime: 'transient' }, RequestContext);
+  });
+
+  it('should resolve scoped registrations from the active scope', async () => {
+    await container.runInScope(async scope => {
+      const context = container.get(RequestContext);
+      await tick();
+
+      expect(container.get(RequestContext)).toBe(context);
+      expect(scope.get(RequestContext)).toBe(context);
+      expect(container.get(AuditLog).context).toBe(context);
+    });
+  });
+
+  it('should isolate concurrent scopes', async () => {
+    const ids = await Promise.all([1, 2].map(() =>
+      container.runInScope(async () => {
+        const before = container.get(RequestContext).id;
+        await tick();
+        return [before, container.get(RequestContext).id];
+      })
+    ));
+
+    expect(ids[0][0]).toBe(ids[0][1]);
+    expect(ids[1][0]).toBe(ids[1][1]);
+    expect(ids[0][0]).not.toBe(ids[1][0]);
+  });
+
+  it('should dispose the scope when the function settles', async () => {
+    const context = await container.runInScope(() => container.get(RequestContext));
+
+    expect(context.disposed).toBe(true);
+    expect(currentScope()).toBeUndefined();
+  });
+
+  it('should dispose the scope when the function throws', async () => {
+    let context: RequestContext | undefined;
+
+    await expect(container.runInScope(() => {
+      context = container.get(RequestContext);
+      throw new Error('handler failed');
+    })).rejects.toThrow('handler failed');
+
+    expect(context?.disposed).toBe(true);
+  });
+
+  it('should still refuse scoped registrations outside runInScope', () => {
+    expect(() => {
+      container.get(RequestContext);
+    }).toThrow('Scoped RequestContext cannot be resolved outside a scope');
+  });
+
+  it('should resolve scoped registrations asynchronously from the active scope', async () => {
+    await container.runInScope(async () => {
+      const context = await container.getAsync(RequestContext);
+
+      expect(container.get(RequestContext)).toBe(context);
+    });
+  });
+});
+
+describe('Global access in request scopes', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    initializeGlobalAccess();
+  });
+
+  it('should resolve Global names to the instance of the active scope', async () => {
+    registerGlobalSingleton('RequestContext', RequestContext, { requestScoped: true });
+
+    const [first, second] = await Promise.all([
+      runInScope(async () => {
+        const context = globalThis.Global.RequestContext;
+        await tick();
+        expect(globalThis.Global.RequestContext).toBe(context);
+        return context;
+      }),
+      runInScope(() => globalThis.Global.RequestContext),
+    ]);
+
+    expect(first).not.toBe(second);
+  });
+});
@@ -0,0 +1,229 @@
+import { Container } from '../index';
+
+class ConfigService {
+  constructor(public host: string) {}
+}
+
+class RequestContext {
+  public id = Math.random();
+}
+
+class RequestLogger {
+  constructor(public context: RequestContext, public config: ConfigService) {}
+}
+
+class ReportBuilder {
+  public id = Math.random();
+}
+
+describe('Lifetimes', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  describe('transient', () => {
+    it('should create a new instance on every get', () => {
+      container.register(ReportBuilder, { lifetime: 'transient' });
+
+      const first = container.get(ReportBuilder);
+      const second = container.get(ReportBuilder);
+
+      expect(first).toBeInstanceOf(ReportBuilder);
+      expect(first).not.toBe(second);
+    });
+
+    it('should still share singleton dependencies', () => {
+      class Report {
+        constructor(public config: ConfigService) {}
+      }
+
+      container.register(ConfigService, 'localhost');
+      container.register(Report, { lifetime: 'transient' }, ConfigService);
+
+      const first = container.get(Report);
+      const second = container.get(Report);
+
+      expect(first).not.toBe(second);
+      expect(first.config).toBe(second.config);
+    });
+
+    it('should create a new instance on every getAsync', async () => {
+      container.register(ReportBuilder, { lifetime: 'transient' });
+
+      const first = await container.getAsync(ReportBuilder);
+      const second = await container.getAsync(ReportBuilder);
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should treat an object with unknown keys as a constructor argument', () => {
+      class Options {
+        constructor(public options: { retries: number }) {}
+      }
+
+      container.register(Options, { retries: 3 });
+
+      expect(container.get(Options).options).toEqual({ retries: 3 });
+    });
+  });
+
+  describe('scoped', () => {
+    beforeEach(() => {
+      container.register(ConfigService, 'localhost');
+      container.register(RequestContext, { lifetime: 'scoped' });
+      container.register(RequestLogger, { lifetime: 'scoped' }, RequestContext, ConfigService);
+    });
+
+    it('should share one instance per scope', () => {
+      const scope = container.createScope();
+
+      const logger = scope.get(RequestLogger);
+
+      expect(scope.get(RequestLogger)).toBe(logger);
+      expect(logger.context).toBe(scope.get(RequestContext));
+    });
+
+    it('should create separate instances in separate scopes', () => {
+      const first = container.createScope();
+      const second = container.createScope();
+
+      expect(first.get(RequestContext)).not.toBe(second.get(RequestContext));
+      expect(first.get(RequestLogger).config).toBe(second.get(RequestLogger).config);
+    });
+
+    it('should share singletons with the container', () => {
+      const scope = container.createScope();
+
+      expect(scope.get(ConfigService)).toBe(container.get(ConfigService));
+    });
+
+    it('should refuse to resolve scoped registrations outside a scope', () => {
+      expect(() => {
+        container.get(RequestContext);
+      }).toThrow('Scoped RequestContext cannot be resolved outside a scope; use createScope()');
+    });
+
+    it('should resolve scoped registrations asynchronously', async () => {
+      const scope = container.createScope();
+
+      const [first, second] = await Promise.all([
+        scope.getAsync(RequestLogger),
+        scope.getAsync(RequestLogger),
+      ]);
+
+      expect(first).toBe(second);
+      expect(first.context).toBe(scope.get(RequestContext));
+    });
+
+    it('should resolve scoped registrations of the parent container', () => {
+      const child = container.createChild();
+      const scope = child.createScope();
+
+      expect(scope.get(RequestLogger)).toBe(scope.get(RequestLogger));
+    });
+  });
+
+  describe('captive dependencies', () => {
+    it('should reject a singleton that depends on a scoped registration', () => {
+      class SessionCache {
+        constructor(public context: RequestContext) {}
+      }
+
+      container.register(RequestContext, { lifetime: 'scoped' });
+      container.register(SessionCache, RequestContext);
+
+      expect(() => {
+        container.createScope().get(SessionCache);
+      }).toThrow('Singleton SessionCache cannot depend on scoped RequestContext');
+    });
+
+    it('should reject scoped registrations reached through a transient dependency', async () => {
+      class Formatter {
+        constructor(public context: RequestContext) {}
+      }
+
+      class AuditService {
+        constructor(public formatter: Formatter) {}
+      }
+
+      container.register(RequestContext, { lifetime: 'scoped' });
+      container.register(Formatter, { lifetime: 'transient' }, RequestContext);
+      container.register(AuditService, Formatter);
+
+      await expect(container.createScope().getAsync(AuditService)).rejects.toThrow(
+        'Singleton AuditService cannot depend on scoped RequestContext'
+      );
+    });
+  });
+});
+
+describe('Scope disposal', () => {
+  it('should dispose scoped and transient instances newest first', async () => {
+    const disposed: string[] = [];
+
+    class Connection {
+      dispose() {
+        disposed.push('Connection');
+      }
+    }
+
+    class Transaction {
+      constructor(public connection: Connection) {}
+      dispose() {
+        disposed.push('Transaction');
+      }
+    }
+
+    class SharedPool {
+      dispose() {
+        disposed.push('SharedPool');
+      }
+    }
+
+    const container = new Container();
+    container.register(SharedPool);
+    container.register(Connection, { lifetime: 'scoped' });
+    container.register(Transaction, { lifetime: 'transient' }, Connection);
+
+    const scope = container.createScope();
+    scope.get(Transaction);
+    scope.get(SharedPool);
+
+    await scope.dispose();
+
+    expect(disposed).toEqual(['Transaction', 'Connection']);
+  });
+
+  it('should support Symbol.asyncDispose', async () => {
+    let disposed = false;
+
+    class Connection {
+      dispose() {
+        disposed = true;
+      }
+    }
+
+    const container = new Container();
+    container.register(Connection, { lifetime: 'scoped' });
+    const scope = container.createScope();
+    scope.get(Connection);
+
+    await (scope as any)[(Symbol as any).asyncDispose]();
+
+    expect(disposed).toBe(true);
+  });
+
+  it('should refuse to resolve from a disposed scope', async () => {
+    const container = new Container();
+    container.register(RequestContext, { lifetime: 'scoped' });
+    const scope = container.createScope();
+
+    await scope.dispose();
+
+    expect(() => {
+      scope.get(RequestContext);
+    }).toThrow('Scope has already been disposed');
+  });
+});
@@ -325,4 +325,273 @@ describe('Singletons alias', () => {
     expect(instance.name).toBe('alias-test');
     expect(Singletons.isRegistered(TestService)).toBe(true);
   });
-});
\ No newline at end of file
+});
+describe('Async initialization', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+  });
+
+  class AsyncConfig {
+    public ready = false;
+    async onInit() {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      this.ready = true;
+    }
+  }
+
+  class AsyncDatabase {
+    public connectedWithReadyConfig = false;
+    constructor(public config: AsyncConfig) {}
+    async onInit() {
+      this.connectedWithReadyConfig = this.config.ready;
+    }
+  }
+
+  it('should await onInit before resolving getAsync', async () => {
+    SingletonRegistry.register(AsyncConfig);
+
+    const config = await SingletonRegistry.getAsync(AsyncConfig);
+
+    expect(config).toBeInstanceOf(AsyncConfig);
+    expect(config.ready).toBe(true);
+  });
+
+  it('should initialize the dependency chain in order', async () => {
+    SingletonRegistry.register(AsyncConfig);
+    SingletonRegistry.register(AsyncDatabase, AsyncConfig);
+
+    const database = await SingletonRegistry.getAsync(AsyncDatabase);
+
+    expect(database.connectedWithReadyConfig).toBe(true);
+    expect(database.config).toBe(SingletonRegistry.get(AsyncConfig));
+  });
+
+  it('should de-duplicate concurrent first calls', async () => {
+    let constructorCallCount = 0;
+
+    class CountingService {
+      constructor() {
+        constructorCallCount++;
+      }
+      async onInit() {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+    }
+
+    SingletonRegistry.register(CountingService);
+
+    const [first, second] = await Promise.all([
+      SingletonRegistry.getAsync(CountingService),
+      SingletonRegistry.getAsync(CountingService),
+    ]);
+
+    expect(first).toBe(second);
+    expect(constructorCallCount).toBe(1);
+  });
+
+  it('should work for singletons without onInit', async () => {
+    SingletonRegistry.register(ConfigService, 3000, 'localhost');
+
+    const config = await SingletonRegistry.getAsync(ConfigService);
+
+    expect(config).toBe(SingletonRegistry.get(ConfigService));
+  });
+
+  it('should refuse synchronous access before initialization', () => {
+    SingletonRegistry.register(AsyncConfig);
+
+    expect(() => {
+      SingletonRegistry.get(AsyncConfig);
+    }).toThrow('Singleton AsyncConfig requires async initialization; use getAsync(AsyncConfig)');
+  });
+
+  it('should refuse synchronous access while initializing', async () => {
+    SingletonRegistry.register(AsyncConfig);
+
+    const pending = SingletonRegistry.getAsync(AsyncConfig);
+
+    expect(() => {
+      SingletonRegistry.get(AsyncConfig);
+    }).toThrow('Singleton AsyncConfig is still initializing');
+
+    await pending;
+    expect(SingletonRegistry.get(AsyncConfig).ready).toBe(true);
+  });
+
+  it('should allow retrying after a failed initialization', async () => {
+    let attempts = 0;
+
+    class FlakyService {
+      async onInit() {
+        attempts++;
+        if (attempts === 1) {
+          throw new Error('connection refused');
+        }
+      }
+    }
+
+    SingletonRegistry.register(FlakyService);
+
+    await expect(SingletonRegistry.getAsync(FlakyService)).rejects.toThrow('connection refused');
+    await expect(SingletonRegistry.getAsync(FlakyService)).resolves.toBeInstanceOf(FlakyService);
+  });
+
+  it('should detect circular dependencies', async () => {
+    SingletonRegistry.register(CircularA, CircularB);
+    SingletonRegistry.register(CircularB, CircularA);
+
+    await expect(SingletonRegistry.getAsync(CircularA)).rejects.toThrow(
+      'Circular dependency detected: CircularA -> CircularB -> CircularA'
+    );
+  });
+
+  it('should reject for unregistered dependencies', async () => {
+    class UnregisteredDep extends AsyncConfig {}
+
+    SingletonRegistry.register(AsyncDatabase, UnregisteredDep);
+
+    await expect(SingletonRegistry.getAsync(AsyncDatabase)).rejects.toThrow(
+      'Dependency UnregisteredDep is not registered for singleton AsyncDatabase'
+    );
+  });
+});
+
+describe('Shutdown', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+  });
+
+  it('should dispose instances in reverse dependency order', async () => {
+    const disposed: string[] = [];
+
+    class TeardownConfig {
+      dispose() {
+        disposed.push('Config');
+      }
+    }
+
+    class TeardownDatabase {
+      constructor(public config: TeardownConfig) {}
+      async dispose() {
+        disposed.push('Database');
+      }
+    }
+
+    class TeardownApi {
+      constructor(public database: TeardownDatabase, public config: TeardownConfig) {}
+      dispose() {
+        disposed.push('Api');
+      }
+    }
+
+    SingletonRegistry.register(TeardownApi, TeardownDatabase, TeardownConfig);
+    SingletonRegistry.register(TeardownConfig);
+    SingletonRegistry.register(TeardownDatabase, TeardownConfig);
+    SingletonRegistry.get(TeardownApi);
+
+    await SingletonRegistry.shutdown();
+
+    expect(disposed).toEqual(['Api', 'Database', 'Config']);
+  });
+
+  it('should support Symbol.dispose and Symbol.asyncDispose', async () => {
+    const disposed: string[] = [];
+
+    class SyncDisposable {
+      [(Symbol as any).dispose]() {
+        disposed.push('sync');
+      }
+    }
+
+    class AsyncDisposable {
+      async [(Symbol as any).asyncDispose]() {
+        disposed.push('async');
+      }
+    }
+
+    SingletonRegistry.register(SyncDisposable);
+    SingletonRegistry.register(AsyncDisposable);
+    SingletonRegistry.get(SyncDisposable);
+    SingletonRegistry.get(AsyncDisposable);
+
+    await SingletonRegistry.shutdown();
+
+    expect(disposed.sort()).toEqual(['async', 'sync']);
+  });
+
+  it('should only dispose instances that were created', async () => {
+    let disposeCount = 0;
+
+    class NeverCreated {
+      dispose() {
+        disposeCount++;
+      }
+    }
+
+    SingletonRegistry.register(NeverCreated);
+
+    await SingletonRegistry.shutdown();
+
+    expect(disposeCount).toBe(0);
+  });
+
+  it('should recreate singletons after shutdown', async () => {
+    SingletonRegistry.register(NoArgsService);
+    const before = SingletonRegistry.get(NoArgsService);
+
+    await SingletonRegistry.shutdown();
+
+    expect(SingletonRegistry.isRegistered(NoArgsService)).toBe(true);
+    expect(SingletonRegistry.get(NoArgsService)).not.toBe(before);
+  });
+
+  it('should wait for singletons still initializing and dispose them', async () => {
+    let disposeCount = 0;
+
+    class SlowService {
+      async onInit() {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      dispose() {
+        disposeCount++;
+      }
+    }
+
+    SingletonRegistry.register(SlowService);
+    const initializing = SingletonRegistry.getAsync(SlowService);
+
+    await SingletonRegistry.shutdown();
+    const instance = await initializing;
+
+    expect(disposeCount).toBe(1);
+    expect(await SingletonRegistry.getAsync(SlowService)).not.toBe(instance);
+  });
+
+  it('should aggregate disposal errors without blocking other disposals', async () => {
+    const disposed: string[] = [];
+
+    class BrokenService {
+      dispose() {
+        throw new Error('socket already closed');
+      }
+    }
+
+    class HealthyService {
+      dispose() {
+        disposed.push('Healthy');
+      }
+    }
+
+    SingletonRegistry.register(BrokenService);
+    SingletonRegistry.register(HealthyService);
+    SingletonRegistry.get(BrokenService);
+    SingletonRegistry.get(HealthyService);
+
+    const error = await SingletonRegistry.shutdown().catch(e => e);
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.errors).toHaveLength(1);
+    expect(error.errors[0].message).toBe('socket already closed');
+    expect(disposed).toEqual(['Healthy']);
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  Container,
+  SingletonRegistry,
+  initializeGlobalAccess,
+  registerGlobalSingleton,
+} from '../index';
+
+class ConfigService {
+  constructor(public url: string = 'https://api.example.com') {}
+}
+
+class ApiService {
+  public disposed = false;
+
+  constructor(public config: ConfigService) {}
+
+  dispose() {
+    this.disposed = true;
+  }
+}
+
+class CacheService {
+  public disposed = false;
+
+  dispose() {
+    this.disposed = true;
+  }
+}
+
+describe('Container snapshots', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register(ConfigService);
+    container.register(ApiService, ConfigService);
+  });
+
+  it('should undo registrations made after the snapshot', async () => {
+    const snapshot = container.snapshot();
+    container.register(CacheService);
+
+    await container.restore(snapshot);
+
+    expect(container.isRegistered(CacheService)).toBe(false);
+    expect(container.isRegistered(ApiService)).toBe(true);
+  });
+
+  it('should keep instances created before the snapshot and dispose those created after', async () => {
+    const config = container.get(ConfigService);
+    const snapshot = container.snapshot();
+    const api = container.get(ApiService);
+
+    await container.restore(snapshot);
+
+    expect(api.disposed).toBe(true);
+    expect(container.get(ConfigService)).toBe(config);
+    expect(container.get(ApiService)).not.toBe(api);
+  });
+
+  it('should dispose instances of registrations made after the snapshot', async () => {
+    const snapshot = container.snapshot();
+    container.register(CacheService);
+    const cache = container.get(CacheService);
+
+    await container.restore(snapshot);
+
+    expect(cache.disposed).toBe(true);
+  });
+
+  it('should start from no instances when instances are not kept', async () => {
+    const api = container.get(ApiService);
+    const snapshot = container.snapshot({ instances: false });
+
+    await container.restore(snapshot);
+
+    expect(api.disposed).toBe(true);
+    expect(container.inspect().nodes.every(node => !node.instantiated)).toBe(true);
+  });
+
+  it('should undo overrides made after the snapshot', async () => {
+    const snapshot = container.snapshot();
+    container.override(ConfigService, new ConfigService('https://fake.test'));
+
+    await container.restore(snapshot);
+
+    expect(container.get(ApiService).config.url).toBe('https://api.example.com');
+  });
+
+  it('should bring back overrides that were active at the snapshot', async () => {
+    const handle = container.override(ConfigService, new ConfigService('https://fake.test'));
+    const snapshot = container.snapshot();
+    handle.restore();
+
+    await container.restore(snapshot);
+
+    expect(container.get(ConfigService).url).toBe('https://fake.test');
+  });
+
+  it('should be restorable repeatedly', async () => {
+    const snapshot = container.snapshot();
+
+    for (let run = 0; run < 2; run++) {
+      await container.restore(snapshot);
+      container.register(CacheService);
+      container.get(ApiService);
+    }
+    await container.restore(snapshot);
+
+    expect(container.isRegistered(CacheService)).toBe(false);
+  });
+
+  it('should refuse snapshots of another container', async () => {
+    const other = new Container();
+
+    await expect(container.restore(other.snapshot())).rejects.toThrow('Snapshot was taken from a different container');
+  });
+});
+
+describe('SingletonRegistry snapshots', () => {
+  beforeAll(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    initializeGlobalAccess();
+    registerGlobalSingleton('ConfigService', ConfigService);
+  });
+
+  it('should restore Global names and the Global binding', async () => {
+    const snapshot = SingletonRegistry.snapshot();
+    registerGlobalSingleton('ApiService', ApiService, ConfigService);
+    registerGlobalSingleton('ConfigService', CacheService);
+    initializeGlobalAccess(new Container());
+
+    await SingletonRegistry.restore(snapshot);
+
+    expect((globalThis as any).__singletonContainer).toBe(SingletonRegistry.container);
+    expect((globalThis as any).Global.ConfigService).toBeInstanceOf(ConfigService);
+    expect('ApiService' in (globalThis as any).Global).toBe(false);
+    expect(() => SingletonRegistry.validate()).not.toThrow();
+  });
+
+  it('should restore a separately bound Global container', async () => {
+    const container = new Container();
+    initializeGlobalAccess(container);
+    registerGlobalSingleton('CacheService', CacheService);
+    const snapshot = SingletonRegistry.snapshot();
+    const cache = (globalThis as any).Global.CacheService;
+
+    await SingletonRegistry.restore(snapshot);
+
+    expect(cache.disposed).toBe(true);
+    expect(container.isRegistered(CacheService)).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  Container,
+  SingletonRegistry,
+  Token,
+  createToken,
+  initializeGlobalAccess,
+  inject,
+  registerGlobalSingleton,
+} from '../index';
+
+interface Logger {
+  log(message: string): string;
+}
+
+class ConsoleLogger implements Logger {
+  constructor(public prefix: string = '') {}
+
+  log(message: string): string {
+    return `${this.prefix}${message}`;
+  }
+}
+
+class ApiService {
+  constructor(public logger: Logger) {}
+}
+
+describe('Injection tokens', () => {
+  let container: Container;
+  let LoggerToken: Token<Logger>;
+
+  beforeEach(() => {
+    container = new Container();
+    LoggerToken = createToken<Logger>('Logger');
+  });
+
+  it('should resolve a token to its implementing class', () => {
+    container.register(LoggerToken, ConsoleLogger, '> ');
+
+    const logger: Logger = container.get(LoggerToken);
+
+    expect(logger).toBeInstanceOf(ConsoleLogger);
+    expect(logger.log('hello')).toBe('> hello');
+    expect(container.get(LoggerToken)).toBe(logger);
+  });
+
+  it('should create distinct tokens even with the same description', () => {
+    const other = createToken<Logger>('Logger');
+    container.register(LoggerToken, ConsoleLogger);
+
+    expect(container.isRegistered(LoggerToken)).toBe(true);
+    expect(container.isRegistered(other)).toBe(false);
+  });
+
+  it('should accept registration options before the implementing class', () => {
+    container.register(LoggerToken, { lifetime: 'transient' }, ConsoleLogger);
+
+    expect(container.get(LoggerToken)).not.toBe(container.get(LoggerToken));
+  });
+
+  it('should inject tokens passed as constructor arguments', () => {
+    container.register(LoggerToken, ConsoleLogger);
+    container.register(ApiService, LoggerToken);
+
+    expect(container.get(ApiService).logger).toBe(container.get(LoggerToken));
+  });
+
+  it('should inject tokens wrapped in inject()', () => {
+    container.register(LoggerToken, ConsoleLogger);
+    container.register(ApiService, inject(LoggerToken));
+
+    expect(container.get(ApiService).logger).toBe(container.get(LoggerToken));
+  });
+
+  it('should name the token in missing registration errors', () => {
+    container.register(ApiService, LoggerToken);
+
+    expect(() => container.get(LoggerToken)).toThrow('Singleton Logger is not registered');
+    expect(() => container.get(ApiService)).toThrow(
+      'Dependency Logger is not registered for singleton ApiService'
+    );
+  });
+
+  it('should require an implementing class when registering a token', () => {
+    // @ts-expect-error - an implementing class is required
+    expect(() => container.register(LoggerToken)).toThrow(
+      'Token Logger must be registered with an implementing class; use registerFactory or registerValue for other values'
+    );
+  });
+
+  it('should register factories and values under tokens', () => {
+    const PortToken = createToken<number>('Port');
+    container.registerValue(PortToken, 8080);
+    container.registerFactory(LoggerToken, resolve => new ConsoleLogger(`[${resolve(PortToken)}] `), {
+      deps: [PortToken],
+    });
+
+    expect(container.get(PortToken)).toBe(8080);
+    expect(container.get(LoggerToken).log('up')).toBe('[8080] up');
+  });
+
+  it('should override tokens in child containers', () => {
+    container.register(LoggerToken, ConsoleLogger);
+    container.register(ApiService, LoggerToken);
+
+    const child = container.createChild();
+    child.registerValue(LoggerToken, new ConsoleLogger('child: '));
+
+    expect(child.get(ApiService).logger.log('hi')).toBe('child: hi');
+    expect(container.get(ApiService).logger.log('hi')).toBe('hi');
+  });
+
+  it('should describe itself by its description', () => {
+    expect(String(LoggerToken)).toBe('Token(Logger)');
+  });
+});
+
+describe('Global access with tokens', () => {
+  const LoggerToken = createToken<Logger>('Logger');
+
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    initializeGlobalAccess();
+  });
+
+  it('should register a token with its implementing class', () => {
+    registerGlobalSingleton('Logger', LoggerToken, ConsoleLogger, '# ');
+
+    const logger = (globalThis as any).Global.Logger;
+
+    expect(logger).toBe(SingletonRegistry.get(LoggerToken));
+    expect(logger.log('x')).toBe('# x');
+  });
+
+  it('should expose a token that is already registered', () => {
+    const logger = new ConsoleLogger();
+    SingletonRegistry.registerValue(LoggerToken, logger);
+
+    registerGlobalSingleton('Logger', LoggerToken);
+
+    expect((globalThis as any).Global.Logger).toBe(logger);
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  Container,
+  HttpContext,
+  SingletonRegistry,
+  ValidationError,
+  createToken,
+  initializeGlobalAccess,
+  registerGlobalSingleton,
+} from '../index';
+
+class ConfigService {}
+
+class DatabaseService {
+  constructor(public config: ConfigService) {}
+}
+
+class ApiService {
+  constructor(public db: DatabaseService) {}
+}
+
+function validationError(validate: () => void): ValidationError {
+  try {
+    validate();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected validation to fail');
+}
+
+describe('Validation', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  it('should pass for a complete graph without creating instances', () => {
+    let created = 0;
+    class CountedService {
+      constructor(public config: ConfigService) {
+        created++;
+      }
+    }
+    container.register(ConfigService);
+    container.register(CountedService, ConfigService);
+
+    expect(() => container.validate()).not.toThrow();
+    expect(created).toBe(0);
+  });
+
+  it('should report every unregistered dependency', () => {
+    class CacheService {}
+    class ReportService {
+      constructor(public db: DatabaseService, public cache: CacheService) {}
+    }
+    container.register(DatabaseService, ConfigService);
+    container.register(ReportService, DatabaseService, CacheService);
+
+    const error = validationError(() => container.validate());
+
+    expect(error.problems).toEqual([
+      expect.objectContaining({ kind: 'missing-dependency', key: ConfigService, dependent: DatabaseService }),
+      expect.objectContaining({ kind: 'missing-dependency', key: CacheService, dependent: ReportService }),
+    ]);
+    expect(error.message).toContain('Dependency ConfigService is not registered for singleton DatabaseService');
+    expect(error.message).toContain('Dependency CacheService is not registered for singleton ReportService');
+  });
+
+  it('should report cycles in the format get uses', () => {
+    class ServiceA {
+      constructor(public b: any) {}
+    }
+    class ServiceB {
+      constructor(public a: any) {}
+    }
+    container.register(ServiceA, ServiceB);
+    container.register(ServiceB, ServiceA);
+
+    const error = validationError(() => container.validate());
+
+    expect(error.problems).toEqual([{
+      kind: 'cycle',
+      path: [ServiceA, ServiceB, ServiceA],
+      message: 'Circular dependency detected: ServiceA -> ServiceB -> ServiceA',
+    }]);
+    expect(() => container.get(ServiceA)).toThrow('Circular dependency detected: ServiceA -> ServiceB -> ServiceA');
+  });
+
+  it('should report missing dependencies and cycles together', () => {
+    class ServiceA {
+      constructor(public b: any, public api: ApiService) {}
+    }
+    class ServiceB {
+      constructor(public a: any) {}
+    }
+    container.register(ServiceA, ServiceB, ApiService);
+    container.register(ServiceB, ServiceA);
+
+    const error = validationError(() => container.validate());
+
+    expect(error.problems.map(problem => problem.kind)).toEqual(['cycle', 'missing-dependency']);
+    expect(error.message).toMatch(/^Singleton validation failed with 2 problem\(s\):/);
+  });
+
+  it('should check dependencies declared by factories and tokens', () => {
+    const ClientToken = createToken<object>('Client');
+    container.registerFactory(ClientToken, resolve => ({ config: resolve(ConfigService) }), { deps: [ConfigService] });
+
+    const error = validationError(() => container.validate());
+
+    expect(error.problems[0].message).toBe('Dependency ConfigService is not registered for singleton Client');
+  });
+
+  it('should not report keys provided by scopes', () => {
+    class RequestLogger {
+      constructor(public http: HttpContext) {}
+    }
+    container.register(RequestLogger, { lifetime: 'scoped' }, HttpContext);
+
+    expect(() => container.validate()).toThrow(ValidationError);
+    expect(() => container.validate({ provided: [HttpContext] })).not.toThrow();
+  });
+
+  it('should validate child containers against their parents', () => {
+    container.register(ApiService, DatabaseService);
+    container.register(DatabaseService, ConfigService);
+
+    const child = container.createChild();
+    child.register(ConfigService);
+
+    expect(() => container.validate()).toThrow(ValidationError);
+    expect(() => child.validate()).not.toThrow();
+  });
+});
+
+describe('SingletonRegistry.validate()', () => {
+  beforeEach(() => {
+    SingletonRegistry.clear();
+    delete (globalThis as any).Global;
+    delete (globalThis as any).__singletonConstructorMap;
+    delete (globalThis as any).__singletonContainer;
+    initializeGlobalAccess();
+  });
+
+  it('should pass for valid registrations and Global names', () => {
+    registerGlobalSingleton('ConfigService', ConfigService);
+    registerGlobalSingleton('DatabaseService', DatabaseService, ConfigService);
+
+    expect(() => SingletonRegistry.validate()).not.toThrow();
+  });
+
+  it('should report Global names registered more than once', () => {
+    class ApiV1 {}
+    class ApiV2 {}
+    registerGlobalSingleton('Api', ApiV1);
+    registerGlobalSingleton('Api', ApiV2);
+
+    const error = validationError(() => SingletonRegistry.validate());
+
+    expect(error.problems).toEqual([{
+      kind: 'duplicate-global',
+      name: 'Api',
+      keys: [ApiV1, ApiV2],
+      message: 'Global name Api is registered for ApiV1, ApiV2; the last registration wins',
+    }]);
+  });
+
+  it('should report Global names that refer to unregistered tokens', () => {
+    const LoggerToken = createToken<object>('Logger');
+    registerGlobalSingleton('Logger', LoggerToken);
+
+    const error = validationError(() => SingletonRegistry.validate());
+
+    expect(error.problems[0].message).toBe('Global.Logger refers to Logger, which is not registered');
+  });
+
+  it('should validate the container Global is bound to', () => {
+    const container = new Container();
+    initializeGlobalAccess(container);
+    registerGlobalSingleton('DatabaseService', DatabaseService, ConfigService);
+
+    const error = validationError(() => SingletonRegistry.validate());
+
+    expect(error.problems).toEqual([
+      expect.objectContaining({ kind: 'missing-dependency', key: ConfigService, dependent: DatabaseService }),
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+import { resolve } from 'node:path';
+import { Container } from './container';
+import { DependencyGraph, toDot, toJson, toMermaid } from './graph';
+import { getGlobalContainer, withGlobalNames } from './singleton-registry';
+
+/** Renderers for the --format option */
+const formats: Record<string, (graph: DependencyGraph) => string> = {
+  dot: toDot,
+  mermaid: toMermaid,
+  json: toJson,
+};
+
+const usage = 'Usage: true-static graph <entry-file> [--format mermaid|dot|json]';
+
+/** File extensions that need a TypeScript loader */
+const typeScriptExtensions = ['.ts', '.cts', '.mts'];
+
+/**
+ * Output streams the CLI writes to
+ */
+export interface CliOutput {
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+/**
+ * Run the true-static command line
+ *
+ * `graph <entry-file>` loads a module that registers singletons and prints
+ * the resulting dependency graph. The graph of the container the module
+ * exports (as `container` or its default export) is printed; otherwise that
+ * of the container Global is bound to.
+ *
+ * @param args - Command line arguments, without the node and script paths
+ * @param output - Where to write the graph and errors
+ * @returns The process exit code
+ *
+ * @example
+ * ```bash
+ * npx true-static graph ./dist/services.js --format dot | dot -Tsvg > services.svg
+ * ```
+ */
+export function main(args: string[], output: CliOutput = process): number {
+  const [command, entry, ...options] = args;
+  if (command !== 'graph' || !entry) {
+    output.stderr.write(`${usage}\n`);
+    return 1;
+  }
+
+  let format = 'mermaid';
+  for (let index = 0; index < options.length; index++) {
+    if (options[index] === '--format' && index + 1 < options.length) {
+      format = options[++index];
+    } else if (options[index].startsWith('--format=')) {
+      format = options[index].slice('--format='.length);
+    } else {
+      output.stderr.write(`Unknown option ${options[index]}\n${usage}\n`);
+      return 1;
+    }
+  }
+
+  const render = formats[format];
+  if (!render) {
+    output.stderr.write(`Unknown format ${format}; expected one of ${Object.keys(formats).join(', ')}\n`);
+    return 1;
+  }
+
+  let exported: any;
+  try {
+    exported = loadEntry(resolve(entry));
+  } catch (error) {
+    output.stderr.write(`Failed to load ${entry}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+
+  const container = [exported?.container, exported?.default, exported?.default?.container].find(
+    candidate => candidate instanceof Container
+  );
+  output.stdout.write(`${render(withGlobalNames((container ?? getGlobalContainer()).inspect()))}\n`);
+  return 0;
+}
+
+/**
+ * Load the registration module, registering tsx first for TypeScript files when no loader is active
+ */
+function loadEntry(path: string): unknown {
+  const extension = typeScriptExtensions.find(extension => path.endsWith(extension));
+  if (extension && !require.extensions?.[extension]) {
+    try {
+      require('tsx/cjs');
+    } catch {
+      throw new Error('loading TypeScript files requires tsx; install it or point at the compiled JavaScript');
+    }
+  }
+  return require(path);
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,320 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { Key, keyName } from './token';
+
+/**
+ * The type a config value is coerced to
+ */
+export type ConfigType = 'string' | 'number' | 'boolean';
+
+/**
+ * Where config values are looked up: an object of values such as `process.env`,
+ * or a function returning one, called each time a singleton is built
+ */
+export type ConfigSource = Record<string, unknown> | (() => Record<string, unknown>);
+
+/**
+ * Options for `configFrom`
+ */
+export interface ConfigOptions {
+  /** Sources to look values up in, the first one holding a value winning (defaults to `process.env`) */
+  sources?: ConfigSource[];
+}
+
+/**
+ * A config value the container needs, as listed by `describeConfig()`
+ */
+export interface ConfigRequirement {
+  /** The class or token whose constructor receives the value */
+  key: Key<any>;
+  /** The class name or token description */
+  name: string;
+  /** The property of the config object the value is passed in */
+  property: string;
+  /** The environment variable or config file key the value is read from */
+  variable: string;
+  /** The type the value is coerced to */
+  type: ConfigType;
+  /** Whether building the singleton fails when the value is not set */
+  required: boolean;
+  /** The value used when the variable is not set */
+  defaultValue?: unknown;
+}
+
+/**
+ * One value of a config object, read from an environment variable or config file key
+ * @template T - The type of the value once coerced
+ */
+export class ConfigValue<T = any> {
+  constructor(
+    public readonly variable: string,
+    public readonly type: ConfigType,
+    public readonly defaultValue?: T
+  ) {}
+
+  /**
+   * Look the value up in the sources and coerce it to its type
+   *
+   * An empty string counts as not set, as `API_URL=` in a dotenv file or an
+   * exported but empty environment variable usually means "use the default".
+   *
+   * @param sources - The objects to look the variable up in, first match winning
+   * @param key - The key being built, for error messages
+   * @returns The coerced value, or the default when the variable is not set
+   * @throws {Error} If the variable is not set and has no default, or cannot be coerced
+   */
+  read(sources: Record<string, unknown>[], key: Key<any>): T {
+    for (const source of sources) {
+      const raw = lookup(source, this.variable);
+      if (raw !== undefined && raw !== '') {
+        return this.coerce(raw, key);
+      }
+    }
+    if (this.defaultValue === undefined) {
+      throw new Error(`Config value ${this.variable} required by ${keyName(key)} is not set`);
+    }
+    return this.defaultValue;
+  }
+
+  /**
+   * Convert a raw value, usually a string, to the value's type
+   */
+  private coerce(raw: unknown, key: Key<any>): T {
+    const invalid = () =>
+      new Error(`Config value ${this.variable} required by ${keyName(key)} must be a ${this.type}, not ${JSON.stringify(raw)}`);
+
+    switch (this.type) {
+      case 'number': {
+        const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+          throw invalid();
+        }
+        return value as T;
+      }
+      case 'boolean': {
+        const value = typeof raw === 'string' ? booleanStrings[raw.trim().toLowerCase()] : raw;
+        if (typeof value !== 'boolean') {
+          throw invalid();
+        }
+        return value as T;
+      }
+      default:
+        if (raw !== null && typeof raw === 'object') {
+          throw invalid();
+        }
+        return String(raw) as T;
+    }
+  }
+}
+
+/**
+ * A constructor argument built from config values when the singleton is created
+ * @template T - The type of the config object
+ */
+export class ConfigMarker<T = any> {
+  constructor(
+    public readonly values: { [K in keyof T]: ConfigValue<T[K]> },
+    public readonly sources: ConfigSource[]
+  ) {}
+
+  /**
+   * Read every value of the config object
+   *
+   * @param key - The key being built, for error messages
+   * @returns The config object
+   * @throws {Error} If a required value is not set or a value cannot be coerced
+   */
+  read(key: Key<any>): T {
+    const sources = this.sources.map(source => (typeof source === 'function' ? source() : source));
+    const config: Partial<T> = {};
+    for (const property of Object.keys(this.values) as (keyof T)[]) {
+      config[property] = this.values[property].read(sources, key);
+    }
+    return config as T;
+  }
+
+  /**
+   * List the values of the config object for `describeConfig()`
+   *
+   * @param key - The key whose constructor receives the config object
+   * @returns One requirement per value
+   */
+  describe(key: Key<any>): ConfigRequirement[] {
+    return Object.entries<ConfigValue>(this.values).map(([property, value]) => ({
+      key,
+      name: keyName(key),
+      property,
+      variable: value.variable,
+      type: value.type,
+      required: value.defaultValue === undefined,
+      ...(value.defaultValue === undefined ? {} : { defaultValue: value.defaultValue }),
+    }));
+  }
+}
+
+/** Strings accepted for boolean config values, lowercased */
+const booleanStrings: Record<string, boolean | undefined> = {
+  true: true,
+  yes: true,
+  on: true,
+  '1': true,
+  false: false,
+  no: false,
+  off: false,
+  '0': false,
+};
+
+/**
+ * Find a variable in a source: by its full name, or by a dotted path into nested objects such as parsed JSON
+ */
+function lookup(source: Record<string, unknown>, variable: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(source, variable)) {
+    return source[variable];
+  }
+
+  let value: unknown = source;
+  for (const part of variable.split('.')) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, part)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Build a constructor argument from environment variables and config files
+ *
+ * The config object is read each time the registration creates an instance,
+ * so values are looked up when the singleton is built rather than when it is
+ * registered. A required value that is not set, or one that cannot be coerced
+ * to its type, fails the resolution with an error naming the singleton and the
+ * variable. `describeConfig()` lists every value the registrations need.
+ *
+ * @template T - The type of the config object
+ * @param values - The config object's values, as created by {@link env}
+ * @param options - The sources to read values from
+ * @returns A config marker to pass to `register` in place of the config object
+ *
+ * @example
+ * ```typescript
+ * class ApiService {
+ *   constructor(public config: { apiUrl: string; timeout: number }) {}
+ * }
+ *
+ * Singletons.register(ApiService, configFrom({
+ *   apiUrl: env('API_URL'),
+ *   timeout: env.number('TIMEOUT', 5000),
+ * }, { sources: [process.env, dotenvFile(), jsonFile('config.json')] }));
+ * ```
+ */
+export function configFrom<T>(values: { [K in keyof T]: ConfigValue<T[K]> }, options: ConfigOptions = {}): ConfigMarker<T> {
+  return new ConfigMarker(values, options.sources ?? [() => process.env]);
+}
+
+/**
+ * Read a string config value
+ *
+ * `env.number()` and `env.boolean()` read values of other types. A variable
+ * without a default is required. In JSON sources, a dotted name such as
+ * `'api.url'` reaches into nested objects.
+ *
+ * @param variable - The environment variable or config file key
+ * @param defaultValue - The value to use when the variable is not set
+ * @returns A config value for `configFrom`
+ *
+ * @example
+ * ```typescript
+ * configFrom({ apiUrl: env('API_URL'), region: env('AWS_REGION', 'eu-west-1') });
+ * ```
+ */
+export function env(variable: string, defaultValue?: string): ConfigValue<string> {
+  return new ConfigValue(variable, 'string', defaultValue);
+}
+
+/**
+ * Read a number config value, failing on strings that are not numbers
+ *
+ * @param variable - The environment variable or config file key
+ * @param defaultValue - The value to use when the variable is not set
+ * @returns A config value for `configFrom`
+ */
+env.number = (variable: string, defaultValue?: number): ConfigValue<number> =>
+  new ConfigValue(variable, 'number', defaultValue);
+
+/**
+ * Read a boolean config value from `true`/`false`, `yes`/`no`, `on`/`off` or `1`/`0`
+ *
+ * @param variable - The environment variable or config file key
+ * @param defaultValue - The value to use when the variable is not set
+ * @returns A config value for `configFrom`
+ */
+env.boolean = (variable: string, defaultValue?: boolean): ConfigValue<boolean> =>
+  new ConfigValue(variable, 'boolean', defaultValue);
+
+/**
+ * A config source reading `KEY=value` lines from a dotenv file
+ *
+ * The file is read each time a singleton using the source is built, and a
+ * missing file counts as empty. Blank lines, `#` comments and `export`
+ * prefixes are skipped, and quotes around values are removed.
+ *
+ * @param path - The file to read (defaults to `.env` in the working directory)
+ * @returns A config source for `configFrom`
+ *
+ * @example
+ * ```typescript
+ * configFrom({ apiUrl: env('API_URL') }, { sources: [process.env, dotenvFile('.env.local'), dotenvFile()] });
+ * ```
+ */
+export function dotenvFile(path = '.env'): ConfigSource {
+  return () => (existsSync(path) ? parseDotenv(readFileSync(path, 'utf8')) : {});
+}
+
+/**
+ * A config source reading a JSON file, whose nested values dotted variable names reach
+ *
+ * The file is read each time a singleton using the source is built, and a
+ * missing file counts as empty.
+ *
+ * @param path - The file to read
+ * @returns A config source for `configFrom`
+ * @throws {Error} When read, if the file is not valid JSON
+ *
+ * @example
+ * ```typescript
+ * configFrom({ apiUrl: env('api.url') }, { sources: [jsonFile('config.json')] });
+ * ```
+ */
+export function jsonFile(path: string): ConfigSource {
+  return () => {
+    if (!existsSync(path)) {
+      return {};
+    }
+    try {
+      return JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Config file ${path} is not valid JSON: ${(error as Error).message}`);
+    }
+  };
+}
+
+/**
+ * Parse the contents of a dotenv file into its variables
+ */
+function parseDotenv(contents: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const line of contents.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    const [, name, value] = match;
+    const quoted = /^(["'])(.*)\1$/.exec(value);
+    if (quoted) {
+      variables[name] = quoted[1] === '"' ? quoted[2].replace(/\\n/g, '\n') : quoted[2];
+    } else {
+      variables[name] = value.replace(/\s+#.*$/, '');
+    }
+  }
+  return variables;
+}
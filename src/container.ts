@@ -0,0 +1,2267 @@
+import { InjectMarker, InjectableArgs, LazyMarker, OptionsMarker, collectionToken, isCollectionToken, named, toInjectionArgs } from './injection';
+import { lazyValue } from './lazy';
+import { ConfigMarker, ConfigRequirement } from './config';
+import { DependencyGraph, GraphNode, describeArgument } from './graph';
+import { ContainerHooks, HookEvent, ResolutionEvent } from './hooks';
+import { Interceptor, intercepted } from './interception';
+import { StableReference } from './stable';
+import { CandidateReport, Explanation, assess, explanation } from './profiles';
+import { disposeAll, disposeInstance, hasAsyncInit, isPromiseLike } from './lifecycle';
+import { currentScope, runWithScope } from './request-scope';
+import { Scope } from './scope';
+import { Key, Token, keyName } from './token';
+import { ValidationError, ValidationOptions, ValidationProblem, cyclePath, formatCycle } from './validation';
+
+/**
+ * Constructor type for creating instances of class T
+ * @template T - The type of the class instance
+ */
+export type Constructor<T = {}> = new (...args: any[]) => T;
+
+/**
+ * How long a registered instance lives
+ * - `'singleton'`: one instance per container, created on first access (the default)
+ * - `'transient'`: a new instance every time it is resolved
+ * - `'scoped'`: one instance per scope created with `createScope()`
+ */
+export type Lifetime = 'singleton' | 'transient' | 'scoped';
+
+/**
+ * Options that can be passed to `register` before the constructor arguments
+ */
+export interface RegistrationOptions {
+  /** How long instances live (defaults to `'singleton'`) */
+  lifetime?: Lifetime;
+  /** Shorthand for `lifetime: 'scoped'`, for services that live for one request under runInScope */
+  requestScoped?: boolean;
+  /** Create the singleton in `initAll()` instead of on first access */
+  eager?: boolean;
+  /** Register one of several named instances of the key, resolved with `get(key, name)` or injected with `named(key, name)` */
+  key?: string;
+  /** Profiles the registration counts in; it is ignored until one of them is activated with `activate()` */
+  profile?: string | string[];
+  /** Condition the registration counts under, checked when it is registered and on every `activate()` */
+  when?: () => boolean;
+  /** Interceptors every method call on the instance runs through, the first one outermost */
+  intercept?: Interceptor[];
+  /** Hand out a proxy that forwards to the current instance, so references stay valid across `replace()` */
+  stable?: boolean;
+}
+
+/**
+ * Arguments `register` accepts after a class: optional registration options,
+ * then the constructor arguments, each a value or a key that resolves to one
+ * @template C - The class being registered
+ */
+export type RegisterArgs<C extends Constructor<any>> =
+  | InjectableArgs<ConstructorParameters<C>>
+  | [options: RegistrationOptions | OptionsMarker<RegistrationOptions>, ...args: InjectableArgs<ConstructorParameters<C>>];
+
+/**
+ * Arguments `register` accepts after a token: optional registration options,
+ * the implementing class, then its constructor arguments
+ * @template C - The class implementing the token
+ */
+export type TokenRegisterArgs<C extends Constructor<any>> =
+  | [implementation: C, ...args: InjectableArgs<ConstructorParameters<C>>]
+  | [
+      options: RegistrationOptions | OptionsMarker<RegistrationOptions>,
+      implementation: C,
+      ...args: InjectableArgs<ConstructorParameters<C>>,
+    ];
+
+/**
+ * Options that can be passed to `registerMulti` before the implementing class
+ */
+export interface MultiRegistrationOptions extends Omit<RegistrationOptions, 'key' | 'profile' | 'when' | 'stable'> {
+  /** Position among the key's contributions, lowest first; contributions with equal order keep registration order (defaults to 0) */
+  order?: number;
+}
+
+/**
+ * Arguments `registerMulti` accepts after the key: optional registration
+ * options, the contributing class, then its constructor arguments
+ * @template C - The contributing class
+ */
+export type MultiRegisterArgs<C extends Constructor<any>> =
+  | [implementation: C, ...args: InjectableArgs<ConstructorParameters<C>>]
+  | [
+      options: MultiRegistrationOptions | OptionsMarker<MultiRegistrationOptions>,
+      implementation: C,
+      ...args: InjectableArgs<ConstructorParameters<C>>,
+    ];
+
+/**
+ * Options for `registerFactory`
+ */
+export interface FactoryOptions extends RegistrationOptions {
+  /** Registered classes the factory uses; they are resolved (and initialized) before it runs */
+  deps?: Key<any>[];
+}
+
+/**
+ * Resolves a registered class from inside a factory
+ */
+export type Resolve = <T>(key: Key<T>) => T;
+
+/**
+ * Creates an instance for `registerFactory`, optionally asynchronously
+ */
+export type Factory<T> = (resolve: Resolve) => T | Promise<T>;
+
+/**
+ * How a registration creates its instance: `register`, `registerFactory` or `registerValue`
+ */
+export type ProviderKind = 'class' | 'factory' | 'value';
+
+/**
+ * Returned by `override`; restores the original registration
+ */
+export interface OverrideHandle {
+  /** Put the original registration back and drop instances built from the override; does nothing when called again */
+  restore(): void;
+}
+
+/**
+ * What `override` replaces a registration with: an instance, a factory, or a class constructed without arguments
+ * @template T - The type of the instance
+ */
+export type OverrideReplacement<T> = T | Factory<T> | (new () => T);
+
+/**
+ * A registration to override and its replacement, as taken by `withOverrides`
+ */
+export type OverridePair<T = any> = readonly [Key<T>, OverrideReplacement<T>];
+
+/**
+ * Called by `replace` with the new instance of a singleton and the one it replaced (undefined if none was created yet)
+ */
+export type ReplaceListener<T> = (instance: T, previous: T | undefined) => void;
+
+/**
+ * Options for `snapshot`
+ */
+export interface SnapshotOptions {
+  /** Keep the singletons that exist when the snapshot is taken; when false, restore() starts from no instances (defaults to true) */
+  instances?: boolean;
+}
+
+/**
+ * The registrations of a container captured by `snapshot()`, to be passed to `restore()`
+ *
+ * A snapshot can be restored any number of times, such as before every test.
+ */
+export class ContainerSnapshot {
+  /**
+   * @param container - The container the snapshot was taken from
+   * @param instances - Whether the snapshot kept the instances that existed at the time
+   * @internal
+   */
+  constructor(
+    readonly container: Container,
+    readonly instances: boolean
+  ) {}
+}
+
+/**
+ * Options for `initAll`
+ */
+export interface InitOptions {
+  /** Create every singleton, not only those registered with `eager: true` */
+  all?: boolean;
+}
+
+/**
+ * How long creating one singleton took during `initAll`
+ */
+export interface InitTiming {
+  /** The class or token of the singleton */
+  key: Key<any>;
+  /** The class name or token description */
+  name: string;
+  /** Milliseconds spent in its constructor or factory and onInit hook, excluding its dependencies */
+  duration: number;
+}
+
+/**
+ * What `initAll` created
+ */
+export interface InitReport {
+  /** Every singleton created, in the order it finished initializing */
+  timings: InitTiming[];
+  /** Milliseconds from the start of `initAll` until every singleton was ready */
+  duration: number;
+}
+
+/** Keys of RegistrationOptions, used to tell an options object apart from a constructor argument */
+const registrationOptionKeys = new Set<string>([
+  'lifetime',
+  'requestScoped',
+  'eager',
+  'key',
+  'profile',
+  'when',
+  'intercept',
+  'stable',
+]);
+
+/** Keys of MultiRegistrationOptions */
+const multiRegistrationOptionKeys = new Set<string>(['lifetime', 'requestScoped', 'eager', 'intercept', 'order']);
+
+/**
+ * Check whether a register argument is a RegistrationOptions object rather than a constructor argument
+ * Only plain objects whose keys are all known option names qualify; literal() arguments never do.
+ */
+function isRegistrationOptions(arg: unknown, optionKeys = registrationOptionKeys): arg is RegistrationOptions {
+  if (arg === null || typeof arg !== 'object' || Object.getPrototypeOf(arg) !== Object.prototype) {
+    return false;
+  }
+  const keys = Object.keys(arg);
+  return keys.length > 0 && keys.every(key => optionKeys.has(key));
+}
+
+/**
+ * Take the registration options off the front of register arguments, if they start with any
+ */
+function shiftOptions<O extends object>(args: any[], optionKeys?: Set<string>): O {
+  if (args[0] instanceof OptionsMarker) {
+    return args.shift().options;
+  }
+  return isRegistrationOptions(args[0], optionKeys) ? args.shift() : ({} as O);
+}
+
+/**
+ * Get the lifetime a set of registration options asks for
+ */
+function lifetimeOf(options: RegistrationOptions): Lifetime {
+  return options.requestScoped ? 'scoped' : options.lifetime ?? 'singleton';
+}
+
+/**
+ * Get the profiles a set of registration options limits the registration to
+ */
+function profilesOf(options: RegistrationOptions): string[] | undefined {
+  return options.profile === undefined ? undefined : [options.profile].flat();
+}
+
+/**
+ * Name what an entry creates its instance with in explanations: the class, or `factory` / `value`
+ */
+function implementationName(entry: SingletonEntry<any>): string {
+  return entry.implementation?.name ?? entry.provider;
+}
+
+/**
+ * Check whether an entry only counts under some profiles or a condition
+ */
+function isConditional(entry: SingletonEntry<any>): boolean {
+  return entry.profiles !== undefined || entry.when !== undefined;
+}
+
+/**
+ * Get every key an entry depends on, lazy dependencies included
+ */
+function allDependencies(entry: SingletonEntry<any>): Key<any>[] {
+  return entry.lazyDependencies ? [...entry.dependencies, ...entry.lazyDependencies] : entry.dependencies;
+}
+
+/**
+ * State of an entry at the time of a snapshot
+ */
+interface EntryState {
+  instance: unknown;
+  /** For stable registrations, the instance the proxy forwards to */
+  current?: unknown;
+  resolvedArgs?: any[];
+  replaces?: SingletonEntry<any>;
+  /** The constructor arguments and dependencies, which replace() may have changed since */
+  args: any[];
+  dependencies: Key<any>[];
+  lazyDependencies?: Key<any>[];
+}
+
+/**
+ * What a ContainerSnapshot restores: the registry maps and the state of every entry in them
+ */
+interface SnapshotState {
+  registry: Map<Key<any>, SingletonEntry<any>>;
+  inherited: Map<Key<any>, SingletonEntry<any>>;
+  candidates: Map<Key<any>, SingletonEntry<any>[]>;
+  profiles?: Set<string>;
+  entries: Map<SingletonEntry<any>, EntryState>;
+}
+
+/** Captured state of each snapshot, kept out of the public ContainerSnapshot object */
+const snapshotStates = new WeakMap<ContainerSnapshot, SnapshotState>();
+
+/** Overrides that have not been restored yet, oldest first, for restoreOverrides() */
+const activeOverrides: OverrideHandle[] = [];
+
+/**
+ * Restore every override that is still active, newest first
+ * @internal
+ */
+export function restoreActiveOverrides(): void {
+  while (activeOverrides.length > 0) {
+    activeOverrides[activeOverrides.length - 1].restore();
+  }
+}
+
+/**
+ * Check whether a function is a class, which must be constructed rather than called
+ * Plain functions have a prototype too, so the source is what tells them apart.
+ */
+function isClass(fn: unknown): fn is new () => unknown {
+  return typeof fn === 'function' && /^class[\s{]/.test(Function.prototype.toString.call(fn));
+}
+
+/**
+ * Check whether a function is declared `async`, so calling it always yields a promise
+ */
+function isAsyncFunction(fn: Function): boolean {
+  return fn.constructor?.name === 'AsyncFunction';
+}
+
+/**
+ * Internal registry entry for a registered class, factory or value
+ * @template T - The type of the instance
+ */
+interface SingletonEntry<T> {
+  /** The class the entry is registered under */
+  key: Key<T>;
+  /** Creates an instance from the resolved arguments */
+  factory: (resolvedArgs: any[], resolve: Resolve) => T | Promise<T>;
+  /** Whether creating an instance is asynchronous, so it must go through getAsync */
+  async: boolean;
+  /** Whether the container created the instance and so disposes it; false for registered values */
+  owned: boolean;
+  /** Which registration method created the entry */
+  provider: ProviderKind;
+  /** How long instances of this registration live */
+  lifetime: Lifetime;
+  /** Whether initAll creates the singleton even without the `all` option */
+  eager: boolean;
+  /** The cached singleton instance (undefined until first access, and always for other lifetimes) */
+  instance?: T;
+  /** Constructor arguments, with dependencies wrapped in inject() markers */
+  args: any[];
+  /** List of constructor dependencies that need to be resolved */
+  dependencies: Key<any>[];
+  /** Dependencies injected through lazy() markers, resolved on first use and so left out of cycle checks */
+  lazyDependencies?: Key<any>[];
+  /** Constructor arguments with dependencies resolved to instances */
+  resolvedArgs?: any[];
+  /** In-flight asynchronous initialization, shared by concurrent getAsync calls */
+  pending?: Promise<T>;
+  /** For overrides, the entry of this container that was replaced (undefined if the key was inherited) */
+  replaces?: SingletonEntry<T>;
+  /** For the collection of a key's multi-bindings, the contribution tokens in order */
+  contributions?: Contribution[];
+  /** The class a class registration constructs */
+  implementation?: Function;
+  /** Profiles the registration is limited to (undefined for every profile) */
+  profiles?: string[];
+  /** Condition the registration is limited to */
+  when?: () => boolean;
+  /** Interceptors the instance's method calls run through */
+  interceptors?: Interceptor[];
+  /** For the `stable` option, the proxy handed out in place of the instance */
+  stable?: StableReference;
+  /** For overrides of stable registrations, the instance the proxy forwarded to before, which restore() brings back */
+  stableBefore?: object;
+}
+
+/**
+ * One class registered with registerMulti, under a token of its own
+ */
+interface Contribution {
+  key: Token<any>;
+  order: number;
+}
+
+/**
+ * State threaded through a single resolution
+ */
+interface ResolutionContext {
+  /** Scope that scoped and transient instances are resolved in */
+  scope?: Scope;
+  /** Class whose constructor requested the instance being resolved */
+  dependent?: Key<any>;
+  /** Nearest singleton in the resolution chain, which must not capture scoped instances */
+  singleton?: Key<any>;
+  /** Receives how long each asynchronously created instance took, for initAll reports */
+  timed?: (key: Key<any>, duration: number) => void;
+  /** Keys being created that led to this resolution, outermost first, for hook events */
+  path?: Key<any>[];
+}
+
+/**
+ * An isolated singleton container that manages singleton instances with dependency
+ * injection and lazy initialization. Each container has its own registrations, so
+ * independent libraries in the same process never collide.
+ *
+ * Containers can form a hierarchy: a child container resolves its own
+ * registrations first and falls back to its parent for everything else.
+ *
+ * @example
+ * ```typescript
+ * const container = new Container();
+ * container.register(ConfigService, 'https://api.example.com');
+ * const config = container.get(ConfigService);
+ * ```
+ */
+export class Container {
+  /** Map of classes and tokens to their singleton entries */
+  private registry = new Map<Key<any>, SingletonEntry<any>>();
+  /** Parent registrations re-created in this container because they depend on one of its overrides */
+  private inherited = new Map<Key<any>, SingletonEntry<any>>();
+  /** Stack tracking current initialization chain to detect circular dependencies */
+  private initializationStack = new Set<Key<any>>();
+  /** Every registration of keys that have conditional registrations, in registration order; the registry holds the selected one */
+  private candidates = new Map<Key<any>, SingletonEntry<any>[]>();
+  /** Profiles activated in this container (undefined to use the parent's) */
+  private profiles?: Set<string>;
+  /** Hooks added with addHooks(), in the order they were added */
+  private hooks: ContainerHooks[] = [];
+  /** Errors already passed to onError, so that each is reported once rather than by every resolution it fails */
+  private reportedErrors = new WeakSet<object>();
+  /** Instances kept by a snapshot, which replace() leaves for restore() to bring back rather than disposing */
+  private retained = new WeakSet<object>();
+  /** Listeners added with onReplace(), by key */
+  private replaceListeners = new Map<Key<any>, Set<ReplaceListener<any>>>();
+  /** Containers created with createChild(), held weakly so that children dropped by their owner can be collected */
+  private children = new Set<WeakRef<Container>>();
+
+  /**
+   * Create a container, optionally as the child of another one
+   *
+   * @param parent - Container to fall back to for keys not registered in this one
+   */
+  constructor(private readonly parent?: Container) {}
+
+  /**
+   * Create a child container that resolves its own registrations first and
+   * falls back to this container for everything else
+   *
+   * Registrations in the child override this container's without touching it.
+   * Singletons inherited from this container that depend on an overridden
+   * class are re-created in the child, so they see the child's overrides.
+   *
+   * @returns The new child container
+   *
+   * @example
+   * ```typescript
+   * const tenant = container.createChild();
+   * tenant.register(ConfigService, 'https://tenant.example.com');
+   *
+   * // ApiService is registered in the parent but built with the tenant's ConfigService
+   * const api = tenant.get(ApiService);
+   * ```
+   */
+  createChild(): Container {
+    const child = new Container(this);
+    this.children.add(new WeakRef(child));
+    return child;
+  }
+
+  /**
+   * Register a singleton class with its constructor arguments
+   * 
+   * A plain object whose keys are all {@link RegistrationOptions} names may be
+   * passed before the constructor arguments to configure the registration.
+   * When the key is a token, the first argument after the options is the class
+   * implementing it.
+   * 
+   * Arguments are checked against the constructor's parameter types: each one
+   * must be a value of the parameter's type, or a class, token or marker that
+   * resolves to it.
+   * 
+   * @template C - The singleton class, or the class implementing the token
+   * @param key - The class constructor to register as a singleton, or a token
+   * @param args - Optional registration options, then (for tokens) the implementing class, then arguments to pass to the constructor, including other singleton classes and tokens for dependency injection
+   * @throws {Error} If the key is already registered in this container
+   * @throws {Error} If a token is registered without an implementing class
+   * 
+   * @example
+   * ```typescript
+   * class ConfigService {
+   *   constructor(public apiUrl: string) {}
+   * }
+   * 
+   * container.register(ConfigService, 'https://api.example.com');
+   * container.register(RequestLogger, { lifetime: 'scoped' }, ConfigService);
+   * container.register(LoggerToken, ConsoleLogger, ConfigService);
+   * ```
+   */
+  register<C extends Constructor<any>>(key: C, ...args: RegisterArgs<C>): void;
+  register<T, C extends Constructor<T>>(key: Token<T>, ...args: TokenRegisterArgs<C>): void;
+  register(key: Key<any>, ...args: any[]): void {
+    this.registerClass(key, args);
+  }
+
+  /**
+   * Register a class without checking the arguments against its constructor, for callers that only know them at runtime
+   * The Global name the class is about to be exposed under, if any, is passed on to onRegister hooks.
+   * @internal
+   */
+  registerClass<T>(key: Key<T>, args: any[], globalName?: string): Key<T> {
+    args = [...args];
+    const options = shiftOptions<RegistrationOptions>(args);
+    let constructor: Constructor<T>;
+    if (key instanceof Token) {
+      constructor = args.shift();
+      if (typeof constructor !== 'function') {
+        throw new Error(
+          `Token ${key.description} must be registered with an implementing class; use registerFactory or registerValue for other values`
+        );
+      }
+    } else {
+      constructor = key;
+    }
+
+    const injection = toInjectionArgs(args);
+    const async = hasAsyncInit(constructor);
+
+    const registrationKey = options.key === undefined ? key : named(key, options.key);
+    this.addEntry({
+      key: registrationKey,
+      factory: async
+        ? async resolvedArgs => {
+            const instance: any = new constructor(...resolvedArgs);
+            await instance.onInit();
+            return instance;
+          }
+        : resolvedArgs => new constructor(...resolvedArgs),
+      async,
+      owned: true,
+      provider: 'class',
+      lifetime: lifetimeOf(options),
+      eager: options.eager ?? false,
+      args: injection.args,
+      dependencies: injection.dependencies,
+      lazyDependencies: injection.lazyDependencies,
+      implementation: constructor,
+      profiles: profilesOf(options),
+      when: options.when,
+      interceptors: options.intercept,
+      stable: options.stable
+        ? new StableReference(registrationKey as Key<any>, () => this.resolve(registrationKey, {}))
+        : undefined,
+    }, globalName);
+    return registrationKey;
+  }
+
+  /**
+   * Add a class to the multi-bindings of a key
+   *
+   * Any number of classes can contribute to the same key, such as plugins or
+   * health checks implementing a shared base class or token. `getAll` returns
+   * every contribution, and `all(key)` injects them as an array. Each
+   * contribution is otherwise an ordinary registration with its own lifetime.
+   * In a child container, the collection starts from the parent's contributions.
+   *
+   * @template T - The type each contribution implements
+   * @template C - The contributing class
+   * @param key - The class or token the contributions are collected under
+   * @param args - Optional registration options with `order`, then the contributing class, then arguments to pass to its constructor
+   * @throws {Error} If no contributing class is given
+   *
+   * @example
+   * ```typescript
+   * container.registerMulti(HealthCheck, DatabaseCheck, DatabaseService);
+   * container.registerMulti(HealthCheck, { order: -1 }, DiskCheck);
+   *
+   * container.getAll(HealthCheck); // [DiskCheck, DatabaseCheck]
+   * ```
+   */
+  registerMulti<T, C extends Constructor<T>>(key: Key<T>, ...args: MultiRegisterArgs<C>): void;
+  registerMulti(key: Key<any>, ...args: any[]): void {
+    args = [...args];
+    const { order = 0, ...options } = shiftOptions<MultiRegistrationOptions>(args, multiRegistrationOptionKeys);
+    const implementation = args[0];
+    if (typeof implementation !== 'function') {
+      throw new Error(`Multi-bindings of ${keyName(key)} must be registered with an implementing class`);
+    }
+
+    const contribution = new Token<any>(`${keyName(key)}[${implementation.name}]`);
+    this.registerClass(contribution, Object.keys(options).length > 0 ? [options, ...args] : args);
+
+    const collection = collectionToken(key);
+    const contributions = [
+      ...(this.findEntry(collection)?.contributions ?? []),
+      { key: contribution, order },
+    ].sort((a, b) => a.order - b.order);
+
+    this.inherited.delete(collection);
+    this.registry.set(collection, {
+      key: collection,
+      factory: resolvedArgs => resolvedArgs,
+      async: false,
+      owned: false,
+      provider: 'factory',
+      lifetime: 'transient',
+      eager: false,
+      args: contributions.map(({ key }) => new InjectMarker(key)),
+      dependencies: contributions.map(({ key }) => key),
+      contributions,
+    });
+  }
+
+  /**
+   * Register a factory that creates the instance for a class or token
+   *
+   * Use it for instances built by third-party helpers, such as `createClient(opts)`.
+   * The factory receives a `resolve` function for other registrations and may
+   * return a promise, in which case the instance must be created with `getAsync`.
+   *
+   * @template T - The type of the instance
+   * @param key - The class or token the instance is registered under
+   * @param factory - Creates the instance
+   * @param options - Registration options, plus `deps` listing the keys the factory resolves
+   * @throws {Error} If the key is already registered in this container
+   *
+   * @example
+   * ```typescript
+   * container.registerFactory(RedisClient, resolve => {
+   *   return createClient({ url: resolve(ConfigService).redisUrl });
+   * }, { deps: [ConfigService] });
+   * ```
+   */
+  registerFactory<T>(key: Key<T>, factory: Factory<T>, options: FactoryOptions = {}): void {
+    const dependencies = options.deps ?? [];
+    const registrationKey = options.key === undefined ? key : named(key, options.key);
+
+    this.addEntry({
+      key: registrationKey,
+      factory: (resolvedArgs, resolve) => factory(resolve),
+      async: isAsyncFunction(factory),
+      owned: true,
+      provider: 'factory',
+      lifetime: lifetimeOf(options),
+      eager: options.eager ?? false,
+      args: dependencies.map(dependency => new InjectMarker(dependency)),
+      dependencies,
+      profiles: profilesOf(options),
+      when: options.when,
+      interceptors: options.intercept,
+      stable: options.stable
+        ? new StableReference(registrationKey as Key<any>, () => this.resolve(registrationKey, {}))
+        : undefined,
+    });
+  }
+
+  /**
+   * Register an already-built instance for a class or token
+   *
+   * The value is returned as-is by `get` and is not disposed by `shutdown`,
+   * since the container did not create it.
+   *
+   * @template T - The type of the instance
+   * @param key - The class or token the instance is registered under
+   * @param value - The instance to return
+   * @throws {Error} If the key is already registered in this container
+   *
+   * @example
+   * ```typescript
+   * container.registerValue(ConfigService, new ConfigService('https://api.example.com'));
+   * ```
+   */
+  registerValue<T>(key: Key<T>, value: T): void {
+    this.addEntry({
+      key,
+      factory: () => value,
+      async: false,
+      owned: false,
+      provider: 'value',
+      lifetime: 'singleton',
+      eager: false,
+      instance: value,
+      args: [],
+      dependencies: [],
+    });
+  }
+
+  /**
+   * Add an entry to this container's registry, refusing duplicates, and report it to onRegister hooks
+   */
+  private addEntry(entry: SingletonEntry<any>, globalName?: string): void {
+    const registered = this.registry.get(entry.key);
+    const existing = this.candidates.get(entry.key) ?? (registered ? [registered] : []);
+    if (!isConditional(entry) && existing.some(other => !isConditional(other))) {
+      throw new Error(`Singleton ${keyName(entry.key)} is already registered`);
+    }
+    if (entry.eager && entry.lifetime !== 'singleton') {
+      const lifetime = entry.lifetime === 'scoped' ? 'Scoped' : 'Transient';
+      throw new Error(`${lifetime} ${keyName(entry.key)} cannot be eager; only singletons are created by initAll()`);
+    }
+    if (entry.stable && entry.lifetime !== 'singleton') {
+      const lifetime = entry.lifetime === 'scoped' ? 'Scoped' : 'Transient';
+      throw new Error(`${lifetime} ${keyName(entry.key)} cannot be stable; only singletons can be replaced`);
+    }
+
+    if (isConditional(entry) || this.candidates.has(entry.key)) {
+      this.candidates.set(entry.key, [...existing, entry]);
+      this.select(entry.key);
+    } else {
+      this.inherited.delete(entry.key);
+      this.registry.set(entry.key, entry);
+    }
+
+    for (const hooks of [...this.hooks]) {
+      hooks.onRegister?.({
+        ...this.hookEvent(entry.key, globalName),
+        provider: entry.provider,
+        lifetime: entry.lifetime,
+      });
+    }
+  }
+
+  /**
+   * Make the most specific active registration of a key the one it resolves to
+   * Ties go to the latest registration. An override of the key stays on top of the new selection.
+   */
+  private select(key: Key<any>): void {
+    const candidates = this.candidates.get(key) ?? [];
+    const activeProfiles = this.activeProfiles();
+    let chosen: SingletonEntry<any> | undefined;
+    let chosenSpecificity = -1;
+    for (const candidate of candidates) {
+      const { active, specificity } = assess(candidate, activeProfiles);
+      if (active && specificity >= chosenSpecificity) {
+        chosen = candidate;
+        chosenSpecificity = specificity;
+      }
+    }
+
+    const current = this.registry.get(key);
+    if (current && !candidates.includes(current)) {
+      let override = current;
+      while (override.replaces && !candidates.includes(override.replaces)) {
+        override = override.replaces;
+      }
+      override.replaces = chosen;
+      return;
+    }
+    if (current === chosen) {
+      return;
+    }
+
+    if (chosen) {
+      this.registry.set(key, chosen);
+    } else {
+      this.registry.delete(key);
+    }
+    this.inherited.delete(key);
+    this.invalidateDependents(key);
+  }
+
+  /**
+   * Get the profiles active in this container
+   */
+  private activeProfiles(): Set<string> {
+    return this.profiles ?? this.parent?.activeProfiles() ?? new Set();
+  }
+
+  /**
+   * Choose which profiles are active, selecting the registrations that count in them
+   *
+   * Registrations made with a `profile` option only count while one of their
+   * profiles is active, and those with a `when` condition only while it holds.
+   * For each key, the most specific active registration wins: one matching a
+   * profile beats an unconditional one, and one that also has a holding
+   * condition beats both. Each call replaces the previously active profiles
+   * and re-checks every condition. Singletons built from a registration that
+   * is no longer selected are dropped, without being disposed. A child
+   * container uses its parent's profiles until it activates its own, and its
+   * registrations are selected again whenever the parent's profiles change.
+   *
+   * @param profiles - The profiles to activate; none to deactivate every profile
+   *
+   * @example
+   * ```typescript
+   * container.register(MailerToken, SmtpMailer, ConfigService);
+   * container.register(MailerToken, { profile: 'test' }, FakeMailer);
+   *
+   * container.activate('test');
+   * container.get(MailerToken); // FakeMailer
+   * ```
+   */
+  activate(...profiles: string[]): void {
+    this.profiles = new Set(profiles);
+    this.reselect();
+  }
+
+  /**
+   * Select the registrations of every conditional key again, here and in the children that use this container's profiles
+   */
+  private reselect(): void {
+    for (const key of this.candidates.keys()) {
+      this.select(key);
+    }
+    for (const child of this.liveChildren()) {
+      if (!child.profiles) {
+        child.reselect();
+      }
+    }
+  }
+
+  /**
+   * Explain why a key resolves to the implementation it does
+   *
+   * Every registration of the key is listed with whether it is active under
+   * the current profiles and conditions, and which one was selected.
+   *
+   * @template T - The type of the instance
+   * @param key - The class or token to explain
+   * @param name - The name of one of several registrations of the key
+   * @returns The selected registration, every candidate, and a readable message
+   *
+   * @example
+   * ```typescript
+   * console.log(container.explain(MailerToken).message);
+   * // Mailer resolves to FakeMailer; active profiles: test
+   * //   - SmtpMailer (unconditional): outranked by FakeMailer
+   * //   - FakeMailer (profile test): selected because profile test is active
+   * ```
+   */
+  explain<T>(key: Key<T>, name?: string): Explanation {
+    const registrationKey = name === undefined ? key : named(key, name);
+    const current = this.registry.get(registrationKey);
+    let original = current;
+    while (original?.replaces) {
+      original = original.replaces;
+    }
+    const candidates = this.candidates.get(registrationKey) ?? (original ? [original] : []);
+    if (candidates.length === 0 && this.parent?.isRegistered(registrationKey)) {
+      return this.parent.explain(registrationKey);
+    }
+
+    const activeProfiles = this.activeProfiles();
+    let selected = current;
+    const reports: CandidateReport[] = [];
+    if (current && !candidates.includes(current)) {
+      reports.push({
+        implementation: implementationName(current),
+        conditional: false,
+        active: true,
+        selected: true,
+        reason: 'selected because it overrides the registration',
+      });
+      while (selected && !candidates.includes(selected)) {
+        selected = selected.replaces;
+      }
+    }
+
+    for (const candidate of candidates) {
+      const assessment = assess(candidate, activeProfiles);
+      reports.push({
+        implementation: implementationName(candidate),
+        profiles: candidate.profiles,
+        conditional: candidate.when !== undefined,
+        active: assessment.active,
+        selected: candidate === current,
+        reason:
+          candidate === current ? `selected because ${assessment.reason}`
+          : !assessment.active ? `inactive because ${assessment.reason}`
+          : candidate === selected ? `overridden, though ${assessment.reason}`
+          : `outranked by ${selected ? implementationName(selected) : 'another registration'}`,
+      });
+    }
+
+    return explanation(registrationKey, [...activeProfiles], reports);
+  }
+
+  /**
+   * Replace a registration with a value or factory, typically a test double
+   *
+   * A class replacement is constructed without arguments, any other function
+   * is called as a factory (`resolve => instance`), and anything else is used
+   * as the instance. Singletons already built from the
+   * original registration are dropped, without being disposed, so they are
+   * re-created with the replacement on next access, in this container and in
+   * its child containers. Proxies a `stable` registration of this container
+   * handed out forward to the replacement until it is restored. Overriding a
+   * key registered in a parent container affects only this container.
+   *
+   * @template T - The type of the instance
+   * @param key - The registered class or token to override
+   * @param replacement - The instance to use, a factory creating it, or a class to construct
+   * @returns A handle whose `restore()` brings back the original registration
+   * @throws {Error} If the key is not registered
+   *
+   * @example
+   * ```typescript
+   * const handle = container.override(MailService, { send: jest.fn() });
+   * // or container.override(MailService, FakeMailer);
+   * try {
+   *   await container.get(SignupService).register('ada@example.com');
+   * } finally {
+   *   handle.restore();
+   * }
+   * ```
+   */
+  override<T>(key: Key<T>, replacement: OverrideReplacement<T>): OverrideHandle {
+    const original = this.findEntry(key);
+    if (!original) {
+      throw this.notRegistered(key, {});
+    }
+
+    const entry: SingletonEntry<T> = isClass(replacement)
+      ? {
+          key,
+          factory: () => new replacement() as T,
+          async: false,
+          owned: true,
+          provider: 'class',
+          lifetime: original.lifetime,
+          eager: false,
+          args: [],
+          dependencies: [],
+        }
+      : typeof replacement === 'function'
+        ? {
+            key,
+            factory: (resolvedArgs, resolve) => (replacement as Factory<T>)(resolve),
+            async: isAsyncFunction(replacement),
+            owned: true,
+            provider: 'factory',
+            lifetime: original.lifetime,
+            eager: false,
+            args: [],
+            dependencies: [],
+          }
+        : {
+            key,
+            factory: () => replacement,
+            async: false,
+            owned: false,
+            provider: 'value',
+            lifetime: 'singleton',
+            eager: false,
+            instance: replacement,
+            args: [],
+            dependencies: [],
+          };
+    entry.replaces = this.registry.get(key);
+    // Stable proxies handed out before forward to the override until it is restored
+    const stable = entry.replaces?.stable;
+    if (stable) {
+      entry.stable = stable;
+      entry.stableBefore = stable.current;
+      stable.current = undefined;
+      if (entry.provider === 'value') {
+        this.hold(entry, replacement as T);
+      }
+    }
+
+    this.registry.set(key, entry);
+    this.inherited.delete(key);
+    this.invalidateDependents(key);
+
+    let restored = false;
+    const handle: OverrideHandle = {
+      restore: () => {
+        if (restored) {
+          return;
+        }
+        restored = true;
+        activeOverrides.splice(activeOverrides.indexOf(handle), 1);
+        this.removeOverride(key, entry);
+      },
+    };
+    activeOverrides.push(handle);
+    return handle;
+  }
+
+  /**
+   * Run a function with registrations overridden, restoring them once it settles
+   *
+   * @template R - The function's result type
+   * @param overrides - Pairs of a registered key and its replacement, as taken by `override`
+   * @param fn - The function to run
+   * @returns A promise resolving to the function's result after the overrides are restored
+   * @throws {Error} If one of the keys is not registered; no override is applied then
+   *
+   * @example
+   * ```typescript
+   * await container.withOverrides([[ConfigService, testConfig], [MailService, () => new FakeMailer()]], async () => {
+   *   await container.get(SignupService).register('ada@example.com');
+   * });
+   * ```
+   */
+  async withOverrides<R>(overrides: Iterable<OverridePair>, fn: () => R | Promise<R>): Promise<R> {
+    const handles: OverrideHandle[] = [];
+    try {
+      for (const [key, replacement] of overrides) {
+        handles.push(this.override(key, replacement));
+      }
+      return await fn();
+    } finally {
+      for (const handle of handles.reverse()) {
+        handle.restore();
+      }
+    }
+  }
+
+  /**
+   * Take an override entry out of this container, keeping any override applied on top of it
+   */
+  private removeOverride(key: Key<any>, entry: SingletonEntry<any>): void {
+    const current = this.registry.get(key);
+    if (current === entry) {
+      if (entry.replaces) {
+        this.registry.set(key, entry.replaces);
+      } else {
+        this.registry.delete(key);
+      }
+      if (entry.stable) {
+        entry.stable.current = entry.stableBefore;
+      }
+      this.invalidateDependents(key);
+      return;
+    }
+
+    for (let newer = current; newer; newer = newer.replaces) {
+      if (newer.replaces === entry) {
+        newer.replaces = entry.replaces;
+        newer.stableBefore = entry.stableBefore;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Swap the instance of a singleton at runtime, such as after its configuration changed
+   *
+   * An array replacement is taken as new constructor arguments for the
+   * registered class, with dependencies given as for `register`; they take the
+   * place of the registered arguments, so the singleton is built from them again
+   * after `shutdown()`. Anything else is used as the instance. Registrations with the `stable` option keep
+   * handing out the same proxy, which forwards to the new instance from now on.
+   * For other registrations, the singletons built from the old instance are
+   * dropped, without being disposed, so they are re-created on next access.
+   *
+   * `onReplace` listeners are notified once the new instance is in place. The
+   * old instance is then disposed, unless it was registered with `registerValue`
+   * or a snapshot keeps it for `restore()` to bring back.
+   * A key registered in a parent container is replaced there.
+   *
+   * @template T - The type of the instance
+   * @param key - The registered class or token to replace the instance of
+   * @param replacement - The new instance, or constructor arguments to create it with
+   * @returns A promise that resolves once the old instance has been disposed
+   * @throws {Error} If the key is not registered, or is not registered as a singleton
+   * @throws {Error} If constructor arguments are given for a registration that is not a class
+   *
+   * @example
+   * ```typescript
+   * container.register(ConfigService, { stable: true }, 'https://api.example.com');
+   * const config = container.get(ConfigService);
+   *
+   * await container.replace(ConfigService, ['https://staging.example.com']);
+   * config.url; // 'https://staging.example.com'
+   * ```
+   */
+  async replace<T>(key: Key<T>, replacement: T | unknown[]): Promise<void> {
+    const entry: SingletonEntry<T> | undefined = this.registry.get(key);
+    if (!entry) {
+      if (this.parent?.isRegistered(key)) {
+        return this.parent.replace(key, replacement);
+      }
+      throw this.notRegistered(key, {});
+    }
+    if (entry.lifetime !== 'singleton') {
+      const lifetime = entry.lifetime === 'scoped' ? 'Scoped' : 'Transient';
+      throw new Error(`${lifetime} ${keyName(key)} cannot be replaced; only singletons have one instance to swap`);
+    }
+
+    let instance: T;
+    let injection: ReturnType<typeof toInjectionArgs> | undefined;
+    let resolvedArgs: any[] | undefined;
+    if (Array.isArray(replacement)) {
+      if (entry.provider !== 'class') {
+        throw new Error(
+          `Singleton ${keyName(key)} is not a class registration; replace it with an instance rather than constructor arguments`
+        );
+      }
+      const context = this.dependencyContext(entry, {});
+      injection = toInjectionArgs(replacement);
+      resolvedArgs = await this.resolveArgsAsync(key, injection.args, context);
+      instance = this.intercept(entry, await entry.factory(resolvedArgs, dependency => this.resolve(dependency, context)));
+    } else {
+      instance = this.intercept(entry, replacement);
+    }
+
+    await entry.pending?.catch(() => {});
+    const previous = entry.stable ? entry.stable.current : entry.instance;
+    this.hold(entry, instance);
+    // New arguments replace the registered ones, so that instances created later are built from them too
+    if (injection) {
+      entry.args = injection.args;
+      entry.dependencies = injection.dependencies;
+      entry.lazyDependencies = injection.lazyDependencies;
+    }
+    entry.resolvedArgs = resolvedArgs;
+    if (!entry.stable) {
+      this.invalidateDependents(key);
+    }
+
+    for (const listener of [...(this.replaceListeners.get(key) ?? [])]) {
+      listener(instance, previous);
+    }
+    if (entry.owned && previous !== undefined && previous !== instance && !this.retained.has(previous as object)) {
+      await disposeInstance(previous);
+    }
+  }
+
+  /**
+   * Listen for `replace` swapping the instance of a key
+   *
+   * Keys registered in a parent container are replaced there, so the listener
+   * is added to the container that registers the key.
+   *
+   * @template T - The type of the instance
+   * @param key - The class or token to listen for
+   * @param listener - Called with the new instance and the one it replaced
+   * @returns A function that removes the listener again
+   *
+   * @example
+   * ```typescript
+   * container.onReplace(ConfigService, config => logger.info(`now using ${config.url}`));
+   * ```
+   */
+  onReplace<T>(key: Key<T>, listener: ReplaceListener<T>): () => void {
+    if (!this.registry.has(key) && this.parent?.isRegistered(key)) {
+      return this.parent.onReplace(key, listener);
+    }
+    let listeners = this.replaceListeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.replaceListeners.set(key, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Drop the cached instances in this container and its children that were built, directly or transitively, from a key
+   */
+  private invalidateDependents(key: Key<any>): void {
+    for (const entry of this.registry.values()) {
+      if (entry.owned && entry.instance !== undefined && this.dependsOn(entry, key, new Set())) {
+        this.release(entry);
+      }
+    }
+    for (const [inheritedKey, entry] of this.inherited) {
+      if (this.dependsOn(entry, key, new Set())) {
+        this.inherited.delete(inheritedKey);
+      }
+    }
+    for (const child of this.liveChildren()) {
+      // Children that register the key themselves never saw this container's entry
+      if (!child.registry.has(key)) {
+        child.inherited.delete(key);
+        child.invalidateDependents(key);
+      }
+    }
+  }
+
+  /**
+   * Get the child containers that have not been collected, forgetting the rest
+   */
+  private liveChildren(): Container[] {
+    const children: Container[] = [];
+    for (const reference of this.children) {
+      const child = reference.deref();
+      if (child) {
+        children.push(child);
+      } else {
+        this.children.delete(reference);
+      }
+    }
+    return children;
+  }
+
+  /**
+   * Check whether an entry transitively depends on a key
+   */
+  private dependsOn(entry: SingletonEntry<any>, key: Key<any>, visited: Set<Key<any>>): boolean {
+    for (const dependency of allDependencies(entry)) {
+      if (dependency === key) {
+        return true;
+      }
+      if (visited.has(dependency)) {
+        continue;
+      }
+      visited.add(dependency);
+
+      const dependencyEntry = this.findEntry(dependency);
+      if (dependencyEntry && this.dependsOn(dependencyEntry, key, visited)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get the instance of a registered class, creating it on first access
+   * 
+   * @template T - The type of the singleton class
+   * @param key - The class or token to get the instance of
+   * @param name - The name of one of several registrations of the key, as given in the `key` option
+   * @returns The singleton instance, or a new instance for transient registrations
+   * @throws {Error} If the class is not registered
+   * @throws {Error} If a circular dependency is detected
+   * @throws {Error} If the singleton (or one of its dependencies) needs async initialization that has not completed
+   * @throws {Error} If the class (or one of its dependencies) is scoped and no scope is active
+   * 
+   * @example
+   * ```typescript
+   * const config = container.get(ConfigService);
+   * const replica = container.get(DatabaseService, 'replica');
+   * ```
+   */
+  get<T>(key: Key<T>, name?: string): T {
+    return this.resolve(name === undefined ? key : named(key, name), { scope: currentScope() });
+  }
+
+  /**
+   * Get the instance of a registered class, awaiting its async initialization
+   * and that of every dependency in its chain
+   *
+   * Dependencies are created in declaration order, each one fully initialized
+   * before the next. Concurrent first calls share the same initialization, so a
+   * singleton is never constructed twice.
+   *
+   * @template T - The type of the singleton class
+   * @param key - The class or token to get the instance of
+   * @param name - The name of one of several registrations of the key, as given in the `key` option
+   * @returns A promise resolving to the initialized singleton instance
+   * @throws {Error} If the class or one of its dependencies is not registered
+   * @throws {Error} If a circular dependency is detected
+   *
+   * @example
+   * ```typescript
+   * const db = await container.getAsync(DatabaseService);
+   * ```
+   */
+  async getAsync<T>(key: Key<T>, name?: string): Promise<T> {
+    const registrationKey = name === undefined ? key : named(key, name);
+    this.assertAcyclic(registrationKey, [], new Set());
+    return this.resolveAsync(registrationKey, { scope: currentScope() });
+  }
+
+  /**
+   * Get every multi-binding of a key, in order
+   *
+   * @template T - The type each contribution implements
+   * @param key - The class or token the contributions were registered under with `registerMulti`
+   * @returns The contributions' instances, or an empty array if there are none
+   * @throws {Error} If a contribution cannot be created synchronously
+   *
+   * @example
+   * ```typescript
+   * const results = await Promise.all(container.getAll(HealthCheck).map(check => check.run()));
+   * ```
+   */
+  getAll<T>(key: Key<T>): T[] {
+    return this.get(collectionToken(key));
+  }
+
+  /**
+   * Get every multi-binding of a key, in order, awaiting their async initialization
+   *
+   * @template T - The type each contribution implements
+   * @param key - The class or token the contributions were registered under with `registerMulti`
+   * @returns A promise resolving to the contributions' instances
+   */
+  getAllAsync<T>(key: Key<T>): Promise<T[]> {
+    return this.getAsync(collectionToken(key));
+  }
+
+  /**
+   * Create every eager singleton (or, with `all`, every singleton) up front
+   *
+   * Singletons are created in dependency order, awaiting async factories and
+   * `onInit` hooks. Every singleton whose dependencies are ready starts right
+   * away, so independent branches of the graph initialize concurrently.
+   * Singletons that already exist are skipped.
+   *
+   * @param options - Set `all` to create every singleton rather than only eager ones
+   * @returns A report with how long each created singleton took
+   * @throws {Error} If a circular dependency is detected
+   * @throws {AggregateError} If one or more singletons failed to initialize; the others are still created
+   *
+   * @example
+   * ```typescript
+   * container.register(DatabaseService, { eager: true }, ConfigService);
+   *
+   * const report = await container.initAll();
+   * for (const { name, duration } of report.timings) {
+   *   console.log(`${name}: ${duration.toFixed(1)}ms`);
+   * }
+   * ```
+   */
+  async initAll(options: InitOptions = {}): Promise<InitReport> {
+    const started = performance.now();
+    const targets = [...this.registeredKeys()].filter(key => {
+      const entry = this.findEntry(key)!;
+      return entry.lifetime === 'singleton' && (options.all || entry.eager);
+    });
+
+    const checked = new Set<Key<any>>();
+    for (const key of targets) {
+      this.assertAcyclic(key, [], checked);
+    }
+
+    const order: Key<any>[] = [];
+    const visit = (key: Key<any>) => {
+      const entry = this.findEntry(key);
+      if (!entry || entry.lifetime !== 'singleton' || order.includes(key)) {
+        return;
+      }
+      entry.dependencies.forEach(visit);
+      order.push(key);
+    };
+    targets.forEach(visit);
+
+    const timings: InitTiming[] = [];
+    const context: ResolutionContext = {
+      timed: (key, duration) => timings.push({ key, name: keyName(key), duration }),
+    };
+    const results = await Promise.allSettled(order.map(key => this.resolveAsync(key, context)));
+
+    const errors = [...new Set(results.flatMap(result => (result.status === 'rejected' ? [result.reason] : [])))];
+    if (errors.length > 0) {
+      throw new AggregateError(errors, `Failed to initialize ${errors.length} singleton(s)`);
+    }
+    return { timings, duration: performance.now() - started };
+  }
+
+  /**
+   * Create a scope for resolving `'scoped'` registrations
+   *
+   * Each scope holds one instance of every scoped registration it resolves and
+   * shares singletons with this container. Dispose the scope to tear down the
+   * scoped and transient instances it created.
+   *
+   * @returns The new scope
+   *
+   * @example
+   * ```typescript
+   * container.register(UnitOfWork, { lifetime: 'scoped' }, DatabaseService);
+   *
+   * const scope = container.createScope();
+   * const unitOfWork = scope.get(UnitOfWork);
+   * await scope.dispose();
+   * ```
+   */
+  createScope(): Scope {
+    return new Scope({
+      get: (key, scope) => this.resolve(key, { scope }),
+      getAsync: (key, scope) => {
+        this.assertAcyclic(key, [], new Set());
+        return this.resolveAsync(key, { scope });
+      },
+    });
+  }
+
+  /**
+   * Run a function inside a new scope bound to its asynchronous context
+   *
+   * While the function (and everything it awaits) runs, `get`, `getAsync` and
+   * `Global` resolve scoped registrations from this scope. The scope is disposed
+   * once the function settles.
+   *
+   * @template R - The function's result type
+   * @param fn - The function to run, receiving the new scope
+   * @returns A promise resolving to the function's result after the scope is disposed
+   *
+   * @example
+   * ```typescript
+   * container.register(RequestContext, { requestScoped: true });
+   *
+   * await container.runInScope(async () => {
+   *   container.get(RequestContext); // the same instance anywhere in this async context
+   * });
+   * ```
+   */
+  async runInScope<R>(fn: (scope: Scope) => R | Promise<R>): Promise<R> {
+    const scope = this.createScope();
+    try {
+      return await runWithScope(scope, () => fn(scope));
+    } finally {
+      await scope.dispose();
+    }
+  }
+
+  /**
+   * Resolve an instance, reporting the resolution to onResolve and onError hooks
+   */
+  private resolve<T>(key: Key<T>, context: ResolutionContext): T {
+    if (this.hooks.length === 0) {
+      return this.resolveInstance(key, context);
+    }
+
+    const started = performance.now();
+    try {
+      const instance = this.resolveInstance(key, context);
+      this.resolved(key, context, instance, started);
+      return instance;
+    } catch (error) {
+      this.failed(key, context, error, started);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve an instance according to its registration's lifetime
+   */
+  private resolveInstance<T>(key: Key<T>, context: ResolutionContext): T {
+    if (context.scope?.has(key)) {
+      return context.scope.instance(key);
+    }
+
+    const entry = this.entryFor(key);
+
+    if (!entry) {
+      if (this.parent?.isRegistered(key)) {
+        return this.parent.resolve(key, context);
+      }
+      if (isCollectionToken(key)) {
+        return [] as T;
+      }
+      throw this.notRegistered(key, context);
+    }
+
+    switch (entry.lifetime) {
+      case 'transient': {
+        const instance = this.construct(entry, context);
+        return context.scope ? context.scope.track(instance) : instance;
+      }
+      case 'scoped':
+        return this.scopeFor(entry, context).instanceFor(key, () => this.construct(entry, context));
+      default:
+        if (entry.instance !== undefined) {
+          return entry.instance;
+        }
+        if (entry.pending) {
+          throw new Error(
+            `Singleton ${keyName(key)} is still initializing; await getAsync(${keyName(key)}) before accessing it`
+          );
+        }
+        return this.construct(entry, context);
+    }
+  }
+
+  /**
+   * Synchronously create an instance for an entry, resolving its dependencies first
+   */
+  private construct<T>(entry: SingletonEntry<T>, context: ResolutionContext): T {
+    const key = entry.key;
+
+    if (entry.async) {
+      throw this.requiresAsync(key);
+    }
+
+    if (this.initializationStack.has(key)) {
+      throw new Error(`Circular dependency detected: ${formatCycle(Array.from(this.initializationStack), key)}`);
+    }
+
+    this.initializationStack.add(key);
+    
+    try {
+      this.beforeCreate(key, context);
+      const dependencyContext = this.dependencyContext(entry, context);
+      const resolvedArgs = entry.resolvedArgs ?? entry.args.map(arg =>
+        arg instanceof InjectMarker ? this.resolve(arg.key, dependencyContext)
+        : arg instanceof LazyMarker ? lazyValue(arg, () => this.resolve(arg.key, dependencyContext))
+        : arg instanceof ConfigMarker ? arg.read(key)
+        : arg
+      );
+
+      const started = performance.now();
+      const created = entry.factory(resolvedArgs, dependency => this.resolve(dependency, dependencyContext));
+      if (isPromiseLike(created)) {
+        created.then(undefined, () => {});
+        throw this.requiresAsync(key);
+      }
+      const instance = this.afterCreate(key, context, this.intercept(entry, created), performance.now() - started);
+
+      if (entry.lifetime === 'singleton') {
+        entry.resolvedArgs = resolvedArgs;
+        return this.hold(entry, instance);
+      }
+      return instance;
+    } finally {
+      this.initializationStack.delete(key);
+    }
+  }
+
+  /**
+   * Build the error for synchronous access to an instance that is created asynchronously
+   */
+  private requiresAsync(key: Key<any>): Error {
+    return new Error(
+      `Singleton ${keyName(key)} requires async initialization; use getAsync(${keyName(key)}) before accessing it`
+    );
+  }
+
+  /**
+   * Resolve an instance awaiting async initialization, reporting the resolution to onResolve and onError hooks
+   */
+  private resolveAsync<T>(key: Key<T>, context: ResolutionContext): Promise<T> {
+    if (this.hooks.length === 0) {
+      return this.resolveInstanceAsync(key, context);
+    }
+
+    const started = performance.now();
+    let pending: Promise<T>;
+    try {
+      pending = this.resolveInstanceAsync(key, context);
+    } catch (error) {
+      this.failed(key, context, error, started);
+      throw error;
+    }
+    return pending.then(
+      instance => {
+        this.resolved(key, context, instance, started);
+        return instance;
+      },
+      error => {
+        this.failed(key, context, error, started);
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Resolve an instance according to its registration's lifetime, awaiting async initialization
+   */
+  private resolveInstanceAsync<T>(key: Key<T>, context: ResolutionContext): Promise<T> {
+    if (context.scope?.has(key)) {
+      return Promise.resolve(context.scope.instance(key));
+    }
+
+    const entry = this.entryFor(key);
+
+    if (!entry) {
+      if (this.parent?.isRegistered(key)) {
+        return this.parent.resolveAsync(key, context);
+      }
+      if (isCollectionToken(key)) {
+        return Promise.resolve([] as T);
+      }
+      throw this.notRegistered(key, context);
+    }
+
+    switch (entry.lifetime) {
+      case 'transient':
+        return this.constructAsync(entry, context).then(instance =>
+          context.scope ? context.scope.track(instance) : instance
+        );
+      case 'scoped':
+        return this.scopeFor(entry, context).instanceForAsync(key, () => this.constructAsync(entry, context));
+      default:
+        if (entry.instance !== undefined) {
+          return Promise.resolve(entry.instance);
+        }
+
+        if (!entry.pending) {
+          const pending = this.constructAsync(entry, context);
+          const settle = () => {
+            if (entry.pending === pending) {
+              entry.pending = undefined;
+            }
+          };
+          pending.then(settle, settle);
+          entry.pending = pending;
+        }
+
+        return entry.pending;
+    }
+  }
+
+  /**
+   * Create an instance for an entry, awaiting its factory or onInit hook and initializing dependencies in order
+   */
+  private async constructAsync<T>(entry: SingletonEntry<T>, context: ResolutionContext): Promise<T> {
+    this.beforeCreate(entry.key, context);
+    const dependencyContext = this.dependencyContext(entry, context);
+    const resolvedArgs = await this.resolveArgsAsync(entry.key, entry.args, dependencyContext);
+
+    const started = performance.now();
+    const created = await entry.factory(resolvedArgs, dependency => this.resolve(dependency, dependencyContext));
+    const duration = performance.now() - started;
+    context.timed?.(entry.key, duration);
+    const instance = this.afterCreate(entry.key, context, this.intercept(entry, created), duration);
+
+    if (entry.lifetime === 'singleton') {
+      entry.resolvedArgs = resolvedArgs;
+      return this.hold(entry, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Resolve the inject(), lazy() and configFrom() markers among constructor arguments, initializing dependencies in order
+   */
+  private async resolveArgsAsync(key: Key<any>, args: any[], context: ResolutionContext): Promise<any[]> {
+    const resolvedArgs: any[] = [];
+    for (const arg of args) {
+      if (arg instanceof InjectMarker) {
+        resolvedArgs.push(await this.resolveAsync(arg.key, context));
+      } else if (arg instanceof LazyMarker) {
+        resolvedArgs.push(lazyValue(arg, () => this.resolve(arg.key, context)));
+      } else if (arg instanceof ConfigMarker) {
+        resolvedArgs.push(arg.read(key));
+      } else {
+        resolvedArgs.push(arg);
+      }
+    }
+    return resolvedArgs;
+  }
+
+  /**
+   * Route a new instance's method calls through the entry's interceptors, if it has any
+   */
+  private intercept<T>(entry: SingletonEntry<T>, instance: T): T {
+    return entry.interceptors ? intercepted(instance, entry.key, entry.interceptors) : instance;
+  }
+
+  /**
+   * Cache a singleton instance, returning what the container hands out for it: the instance, or its stable proxy
+   */
+  private hold<T>(entry: SingletonEntry<T>, instance: T): T {
+    entry.instance = entry.stable ? entry.stable.hold(instance as object) as T : instance;
+    return entry.instance;
+  }
+
+  /**
+   * Build the context an entry's dependencies are resolved in
+   * Singletons resolve their dependencies outside of any scope, so they cannot capture scoped instances.
+   */
+  private dependencyContext(entry: SingletonEntry<any>, context: ResolutionContext): ResolutionContext {
+    const path = [...(context.path ?? []), entry.key];
+    if (entry.lifetime === 'singleton') {
+      return { dependent: entry.key, singleton: entry.key, path };
+    }
+    return { scope: context.scope, dependent: entry.key, singleton: context.singleton, path };
+  }
+
+  /**
+   * Describe a key for hook events
+   */
+  private hookEvent(key: Key<any>, globalName = this.globalName(key)): HookEvent {
+    return { key, name: keyName(key), globalName };
+  }
+
+  /**
+   * Describe a key being resolved for hook events
+   */
+  private resolutionEvent(key: Key<any>, context: ResolutionContext): ResolutionEvent {
+    return { ...this.hookEvent(key), path: [...(context.path ?? []), key] };
+  }
+
+  /**
+   * Find the name a key is accessible under as Global.{name}, if Global resolves from this container
+   */
+  private globalName(key: Key<any>): string | undefined {
+    if ((globalThis as any).__singletonContainer !== this) {
+      return undefined;
+    }
+    const constructorMap: Map<string, Key<any>> | undefined = (globalThis as any).__singletonConstructorMap;
+    for (const [name, mapped] of constructorMap ?? []) {
+      if (mapped === key) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Call the beforeCreate hooks for an instance about to be created
+   */
+  private beforeCreate(key: Key<any>, context: ResolutionContext): void {
+    for (const hooks of [...this.hooks]) {
+      hooks.beforeCreate?.(this.resolutionEvent(key, context));
+    }
+  }
+
+  /**
+   * Call the afterCreate hooks for a new instance, each receiving the instance the previous one returned
+   */
+  private afterCreate<T>(key: Key<T>, context: ResolutionContext, instance: T, duration: number): T {
+    for (const hooks of [...this.hooks]) {
+      const replacement = hooks.afterCreate?.({ ...this.resolutionEvent(key, context), instance, duration });
+      if (replacement !== undefined) {
+        instance = replacement as T;
+      }
+    }
+    return instance;
+  }
+
+  /**
+   * Call the onResolve hooks for a key that resolved
+   */
+  private resolved(key: Key<any>, context: ResolutionContext, instance: unknown, started: number): void {
+    const duration = performance.now() - started;
+    for (const hooks of [...this.hooks]) {
+      hooks.onResolve?.({ ...this.resolutionEvent(key, context), instance, duration });
+    }
+  }
+
+  /**
+   * Call the onError hooks for a key that failed to resolve, unless the error was already reported
+   */
+  private failed(key: Key<any>, context: ResolutionContext, error: unknown, started: number): void {
+    if (error !== null && typeof error === 'object') {
+      if (this.reportedErrors.has(error)) {
+        return;
+      }
+      this.reportedErrors.add(error);
+    }
+
+    const duration = performance.now() - started;
+    for (const hooks of [...this.hooks]) {
+      hooks.onError?.({ ...this.resolutionEvent(key, context), error, duration });
+    }
+  }
+
+  /**
+   * Get the scope a scoped entry resolves in, rejecting captive dependencies
+   */
+  private scopeFor(entry: SingletonEntry<any>, context: ResolutionContext): Scope {
+    if (context.scope) {
+      return context.scope;
+    }
+    if (context.singleton) {
+      throw new Error(
+        `Singleton ${keyName(context.singleton)} cannot depend on scoped ${keyName(entry.key)}; ` +
+        `a singleton would capture one scope's instance for its whole lifetime`
+      );
+    }
+    throw new Error(`Scoped ${keyName(entry.key)} cannot be resolved outside a scope; use createScope()`);
+  }
+
+  /**
+   * Build the error for a class that is not registered in this container or its ancestors
+   */
+  private notRegistered(key: Key<any>, context: ResolutionContext): Error {
+    if (context.dependent) {
+      return new Error(`Dependency ${keyName(key)} is not registered for singleton ${keyName(context.dependent)}`);
+    }
+    return new Error(`Singleton ${keyName(key)} is not registered`);
+  }
+
+  /**
+   * Walk the registered dependency graph from a key and throw if it contains a cycle
+   */
+  private assertAcyclic(key: Key<any>, path: Key<any>[], checked: Set<Key<any>>): void {
+    if (path.includes(key)) {
+      throw new Error(`Circular dependency detected: ${formatCycle(path, key)}`);
+    }
+
+    const entry = this.findEntry(key);
+    if (!entry || checked.has(key)) {
+      return;
+    }
+
+    for (const dependency of entry.dependencies) {
+      this.assertAcyclic(dependency, [...path, key], checked);
+    }
+    checked.add(key);
+  }
+
+  /**
+   * Check every registration visible from this container without creating any instance
+   *
+   * Reports every dependency that is not registered and every circular
+   * dependency at once, so a broken graph fails at startup rather than on
+   * the first access of the affected singleton.
+   *
+   * @param options - Keys provided by scopes at runtime, which are not reported as missing
+   * @throws {ValidationError} Listing every problem found
+   *
+   * @example
+   * ```typescript
+   * container.validate({ provided: [HttpContext] });
+   * ```
+   */
+  validate(options: ValidationOptions = {}): void {
+    const problems = this.findProblems(options);
+    if (problems.length > 0) {
+      throw new ValidationError(problems);
+    }
+  }
+
+  /**
+   * Check whether this container was created, directly or through other children, by another one
+   * @internal
+   */
+  descendsFrom(ancestor: Container): boolean {
+    return this.parent !== undefined && (this.parent === ancestor || this.parent.descendsFrom(ancestor));
+  }
+
+  /**
+   * Collect the problems validate() reports, without throwing
+   * @internal
+   */
+  findProblems(options: ValidationOptions = {}): ValidationProblem[] {
+    const provided = new Set(options.provided);
+    const problems: ValidationProblem[] = [];
+    const visiting: Key<any>[] = [];
+    const done = new Set<Key<any>>();
+
+    const visit = (key: Key<any>) => {
+      if (visiting.includes(key)) {
+        problems.push({
+          kind: 'cycle',
+          path: cyclePath(visiting, key),
+          message: `Circular dependency detected: ${formatCycle(visiting, key)}`,
+        });
+        return;
+      }
+      const entry = this.findEntry(key);
+      if (!entry || done.has(key)) {
+        return;
+      }
+
+      visiting.push(key);
+      for (const dependency of allDependencies(entry)) {
+        if (!this.isRegistered(dependency) && !provided.has(dependency) && !isCollectionToken(dependency)) {
+          problems.push({
+            kind: 'missing-dependency',
+            key: dependency,
+            dependent: key,
+            message: `Dependency ${keyName(dependency)} is not registered for singleton ${keyName(key)}`,
+          });
+        }
+        // Lazy dependencies are resolved after construction, so cycles through them are allowed
+        if (entry.dependencies.includes(dependency)) {
+          visit(dependency);
+        }
+      }
+      visiting.pop();
+      done.add(key);
+    };
+
+    for (const key of this.registeredKeys()) {
+      visit(key);
+    }
+    return problems;
+  }
+
+  /**
+   * Observe what this container does: registrations, instance creation, resolutions and errors
+   *
+   * Every event carries the key, its name and its Global name if it has one;
+   * resolution events add the path of keys that led to the resolution.
+   * `afterCreate` may return a value to use in place of the new instance,
+   * such as a proxy that times method calls. Hooks see resolutions made
+   * through this container, including those a child container falls back to
+   * it for; add them to a child to observe its own registrations.
+   *
+   * @param hooks - The callbacks to call; every one is optional
+   * @returns A function that removes the hooks again
+   *
+   * @example
+   * ```typescript
+   * const removeHooks = container.addHooks({
+   *   afterCreate: ({ name, duration }) => console.log(`created ${name} in ${duration.toFixed(1)}ms`),
+   *   onError: ({ path, error }) => console.error(path.map(keyName).join(' -> '), error),
+   * });
+   * ```
+   */
+  addHooks(hooks: ContainerHooks): () => void {
+    this.hooks.push(hooks);
+    return () => {
+      const index = this.hooks.indexOf(hooks);
+      if (index !== -1) {
+        this.hooks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Get the dependency graph of every registration visible from this container
+   *
+   * Nothing is created; `instantiated` reports whether a singleton already exists.
+   * Render the graph with `toDot`, `toMermaid` or `toJson`.
+   *
+   * @returns One node per registered key, with its dependencies and dependents
+   *
+   * @example
+   * ```typescript
+   * for (const node of container.inspect().nodes) {
+   *   console.log(node.name, '->', node.dependencies.length, 'dependencies');
+   * }
+   * ```
+   */
+  inspect(): DependencyGraph {
+    const nodes = new Map<Key<any>, GraphNode>();
+    for (const key of this.registeredKeys()) {
+      const entry = this.registry.get(key) ?? this.inherited.get(key) ?? this.parent!.findEntry(key)!;
+      nodes.set(key, {
+        key,
+        name: keyName(key),
+        provider: entry.provider,
+        lifetime: entry.lifetime,
+        args: entry.args.map(describeArgument),
+        dependencies: [...entry.dependencies],
+        ...(entry.lazyDependencies?.length ? { lazyDependencies: [...entry.lazyDependencies] } : {}),
+        dependents: [],
+        instantiated: entry.instance !== undefined,
+      });
+    }
+
+    for (const node of nodes.values()) {
+      for (const dependency of [...node.dependencies, ...(node.lazyDependencies ?? [])]) {
+        nodes.get(dependency)?.dependents.push(node.key);
+      }
+    }
+    return { nodes: [...nodes.values()] };
+  }
+
+  /**
+   * List every config value the registrations of this container and its ancestors read through configFrom()
+   *
+   * Nothing is read; use it to document or check the environment a deployment
+   * needs before starting the application.
+   *
+   * @returns One requirement per config value, in registration order
+   *
+   * @example
+   * ```typescript
+   * for (const { variable, type, required, name } of container.describeConfig()) {
+   *   console.log(`${variable} (${type}${required ? ', required' : ''}) for ${name}`);
+   * }
+   * ```
+   */
+  describeConfig(): ConfigRequirement[] {
+    const requirements: ConfigRequirement[] = [];
+    for (const key of this.registeredKeys()) {
+      const entry = this.registry.get(key) ?? this.parent!.findEntry(key)!;
+      for (const arg of entry.args) {
+        if (arg instanceof ConfigMarker) {
+          requirements.push(...arg.describe(key));
+        }
+      }
+    }
+    return requirements;
+  }
+
+  /**
+   * Get every key registered in this container or one of its ancestors, ancestors first
+   */
+  private registeredKeys(): Set<Key<any>> {
+    return new Set([...(this.parent?.registeredKeys() ?? []), ...this.registry.keys()]);
+  }
+
+  /**
+   * Find the registration visible from this container, searching up the parent chain
+   */
+  private findEntry(key: Key<any>): SingletonEntry<any> | undefined {
+    return this.registry.get(key) ?? this.parent?.findEntry(key);
+  }
+
+  /**
+   * Find the entry this container builds itself: its own registration, or a parent
+   * registration that must be re-created here because it depends on an override
+   */
+  private entryFor(key: Key<any>): SingletonEntry<any> | undefined {
+    const own = this.registry.get(key) ?? this.inherited.get(key);
+    if (own) {
+      return own;
+    }
+
+    const parentEntry = this.parent?.findEntry(key);
+    if (!parentEntry || !this.dependsOnOverride(parentEntry, new Set())) {
+      return undefined;
+    }
+
+    const entry: SingletonEntry<any> = {
+      key: parentEntry.key,
+      factory: parentEntry.factory,
+      async: parentEntry.async,
+      owned: parentEntry.owned,
+      provider: parentEntry.provider,
+      lifetime: parentEntry.lifetime,
+      eager: parentEntry.eager,
+      args: parentEntry.args,
+      dependencies: parentEntry.dependencies,
+      lazyDependencies: parentEntry.lazyDependencies,
+      interceptors: parentEntry.interceptors,
+      stable: parentEntry.stable && new StableReference(parentEntry.key, () => this.resolve(parentEntry.key, {})),
+    };
+    this.inherited.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Check whether a parent registration transitively depends on a class registered in this container
+   */
+  private dependsOnOverride(entry: SingletonEntry<any>, visited: Set<Key<any>>): boolean {
+    for (const dependency of allDependencies(entry)) {
+      if (this.registry.has(dependency)) {
+        return true;
+      }
+      if (visited.has(dependency)) {
+        continue;
+      }
+      visited.add(dependency);
+
+      const dependencyEntry = this.parent?.findEntry(dependency);
+      if (dependencyEntry && this.dependsOnOverride(dependencyEntry, visited)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Dispose every singleton instance created so far, dependents before their dependencies
+   *
+   * Each instance is torn down through `[Symbol.asyncDispose]`, `[Symbol.dispose]`
+   * or `dispose()`, whichever it implements first. Registrations are kept, so
+   * singletons are created afresh on their next access. Only instances owned by
+   * this container are disposed; a parent's instances are left untouched.
+   * Singletons that `getAsync()` is still initializing are awaited first, and
+   * disposed along with the rest.
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   * @throws {AggregateError} If one or more disposals failed; the remaining instances are still disposed
+   *
+   * @example
+   * ```typescript
+   * afterAll(async () => {
+   *   await container.shutdown();
+   * });
+   * ```
+   */
+  async shutdown(): Promise<void> {
+    // Let singletons still initializing through getAsync() finish, so that they are disposed rather than cached afterwards
+    const pending = [...this.registry.values(), ...this.inherited.values()].flatMap(entry => (entry.pending ? [entry.pending] : []));
+    await Promise.allSettled(pending);
+
+    const instances = this.teardownOrder().map(entry => this.release(entry));
+
+    await disposeAll(instances, 'singleton(s)');
+  }
+
+  /**
+   * Drop the cached instance of an entry, so that it is created afresh on next access
+   *
+   * @returns The dropped instance; for stable registrations, the one behind the proxy rather than the proxy
+   */
+  private release(entry: SingletonEntry<any>): unknown {
+    const instance = entry.stable ? entry.stable.current : entry.instance;
+    entry.instance = undefined;
+    entry.resolvedArgs = undefined;
+    if (entry.stable) {
+      entry.stable.current = undefined;
+    }
+    return instance;
+  }
+
+  /**
+   * Order the instantiated singletons so that every dependent comes before its dependencies
+   */
+  private teardownOrder(): SingletonEntry<any>[] {
+    const visited = new Set<Key<any>>();
+    const creationOrder: SingletonEntry<any>[] = [];
+
+    const visit = (key: Key<any>) => {
+      if (visited.has(key)) {
+        return;
+      }
+      visited.add(key);
+
+      const entry = this.registry.get(key) ?? this.inherited.get(key);
+      if (!entry) {
+        return;
+      }
+
+      for (const dependency of allDependencies(entry)) {
+        visit(dependency);
+      }
+
+      if (entry.instance !== undefined && entry.owned) {
+        creationOrder.push(entry);
+      }
+    };
+
+    for (const key of [...this.registry.keys(), ...this.inherited.keys()]) {
+      visit(key);
+    }
+
+    return creationOrder.reverse();
+  }
+
+  /**
+   * Capture this container's registrations so that `restore()` can put them back
+   *
+   * Registrations, overrides and (unless `instances` is false) the singletons
+   * that already exist are captured. Take the snapshot once after the
+   * application's registrations and restore it before every test.
+   *
+   * @param options - Whether to keep the singletons that exist now
+   * @returns The snapshot
+   *
+   * @example
+   * ```typescript
+   * const snapshot = container.snapshot();
+   *
+   * beforeEach(async () => {
+   *   await container.restore(snapshot);
+   * });
+   * ```
+   */
+  snapshot(options: SnapshotOptions = {}): ContainerSnapshot {
+    const keepInstances = options.instances ?? true;
+    const snapshot = new ContainerSnapshot(this, keepInstances);
+    const entries = new Map<SingletonEntry<any>, EntryState>();
+
+    for (const entry of [...this.registry.values(), ...this.inherited.values()]) {
+      for (let current: SingletonEntry<any> | undefined = entry; current; current = current.replaces) {
+        entries.set(current, this.entryState(current, keepInstances, current.replaces));
+      }
+    }
+
+    for (const candidates of this.candidates.values()) {
+      for (const entry of candidates) {
+        if (!entries.has(entry)) {
+          entries.set(entry, this.entryState(entry, keepInstances));
+        }
+      }
+    }
+
+    snapshotStates.set(snapshot, {
+      registry: new Map(this.registry),
+      inherited: new Map(this.inherited),
+      candidates: new Map(this.candidates),
+      profiles: this.profiles,
+      entries,
+    });
+    return snapshot;
+  }
+
+  /**
+   * Capture the state of an entry for a snapshot, marking the instances it keeps as retained
+   */
+  private entryState(entry: SingletonEntry<any>, keepInstances: boolean, replaces?: SingletonEntry<any>): EntryState {
+    const keep = keepInstances || !entry.owned;
+    const state: EntryState = {
+      instance: keep ? entry.instance : undefined,
+      current: keep ? entry.stable?.current : undefined,
+      resolvedArgs: keep ? entry.resolvedArgs : undefined,
+      replaces,
+      args: entry.args,
+      dependencies: entry.dependencies,
+      lazyDependencies: entry.lazyDependencies,
+    };
+    for (const instance of [state.instance, state.current]) {
+      if (instance !== null && (typeof instance === 'object' || typeof instance === 'function')) {
+        this.retained.add(instance);
+      }
+    }
+    return state;
+  }
+
+  /**
+   * Put this container back in the state captured by `snapshot()`
+   *
+   * Registrations and overrides made since the snapshot are undone. Singletons
+   * created since the snapshot are dropped and disposed, dependents before
+   * their dependencies.
+   *
+   * @param snapshot - A snapshot taken from this container
+   * @returns A promise that resolves once the dropped instances have been disposed
+   * @throws {Error} If the snapshot was taken from another container
+   * @throws {AggregateError} If one or more disposals failed; the registry is restored regardless
+   *
+   * @example
+   * ```typescript
+   * await container.restore(snapshot);
+   * ```
+   */
+  async restore(snapshot: ContainerSnapshot): Promise<void> {
+    const state = snapshotStates.get(snapshot);
+    if (!state || snapshot.container !== this) {
+      throw new Error('Snapshot was taken from a different container');
+    }
+
+    const kept = new Set([...state.entries.values()].flatMap(entryState => [entryState.instance, entryState.current]));
+    const created = this.teardownOrder()
+      .map(entry => (entry.stable ? entry.stable.current : entry.instance))
+      .filter(instance => !kept.has(instance));
+
+    this.registry = new Map(state.registry);
+    this.inherited = new Map(state.inherited);
+    this.candidates = new Map(state.candidates);
+    this.profiles = state.profiles;
+    this.initializationStack.clear();
+    for (const [entry, entryState] of state.entries) {
+      entry.instance = entryState.instance;
+      entry.resolvedArgs = entryState.resolvedArgs;
+      entry.replaces = entryState.replaces;
+      entry.args = entryState.args;
+      entry.dependencies = entryState.dependencies;
+      entry.lazyDependencies = entryState.lazyDependencies;
+      entry.pending = undefined;
+      if (entry.stable) {
+        entry.stable.current = entryState.current;
+      }
+    }
+
+    await disposeAll(created, 'singleton(s)');
+  }
+
+  /**
+   * Clear all registered singletons and reset the registry
+   * Useful for testing to ensure clean state between tests.
+   * Instances are dropped without being disposed; call `shutdown()` first to release their resources.
+   * `onReplace` listeners and activated profiles are dropped too; hooks are kept.
+   * 
+   * @example
+   * ```typescript
+   * // In test setup
+   * beforeEach(() => {
+   *   container.clear();
+   * });
+   * ```
+   */
+  clear(): void {
+    this.registry.clear();
+    this.inherited.clear();
+    this.candidates.clear();
+    this.initializationStack.clear();
+    this.replaceListeners.clear();
+    this.profiles = undefined;
+    this.retained = new WeakSet();
+  }
+
+  /**
+   * Check if a class is registered as a singleton in this container or one of its ancestors
+   * 
+   * @template T - The type of the class to check
+   * @param key - The class or token to check
+   * @param name - The name of one of several registrations of the key
+   * @returns True if the class is registered, false otherwise
+   * 
+   * @example
+   * ```typescript
+   * if (container.isRegistered(ConfigService)) {
+   *   const config = container.get(ConfigService);
+   * }
+   * ```
+   */
+  isRegistered<T>(key: Key<T>, name?: string): boolean {
+    if (name !== undefined) {
+      return this.isRegistered(named(key, name));
+    }
+    return this.registry.has(key) || (this.parent?.isRegistered(key) ?? false);
+  }
+}
@@ -0,0 +1,174 @@
+import { Constructor, Container, RegistrationOptions } from './container';
+import { inject, options as registrationOptions } from './injection';
+import { SingletonRegistry, exposeGlobal, getGlobalContainer } from './singleton-registry';
+import { Key, keyName } from './token';
+
+/**
+ * Options for the {@link Singleton} class decorator
+ */
+export interface SingletonOptions extends RegistrationOptions {
+  /** Also expose the singleton as `Global.{name}` */
+  global?: string;
+  /** Constructor arguments as given to `register`; when set, parameter metadata is ignored */
+  args?: any[];
+  /** Container to register in (defaults to the SingletonRegistry container, or the Global container when `global` is set) */
+  container?: Container;
+}
+
+/**
+ * Decorator returned by {@link Inject}: a constructor parameter decorator with
+ * `experimentalDecorators`, a field decorator with standard decorators
+ * @template T - The type of the injected instance
+ */
+export interface InjectDecorator<T> {
+  (target: object, propertyKey: string | symbol | undefined, parameterIndex: number): void;
+  <This>(value: undefined, context: ClassFieldDecoratorContext<This, T>): (this: This, initialValue: T) => T;
+}
+
+/** Keys injected into constructor parameters with @Inject, by class and parameter index */
+const parameterKeys = new WeakMap<Function, Map<number, Key<any>>>();
+
+/** Containers that decorated classes were registered in, used to resolve injected fields */
+const decoratedContainers = new WeakMap<Function, Container>();
+
+/** Parameter types that design metadata reports for primitives, interfaces and other non-injectable types */
+const uninjectableTypes = new Set<unknown>([Object, String, Number, Boolean, Symbol, BigInt, Function, Array, Promise, undefined]);
+
+/**
+ * Register the decorated class as a singleton
+ *
+ * Constructor arguments come from the `args` option when given; otherwise they
+ * are built from `@Inject` parameter decorators and, when `emitDecoratorMetadata`
+ * is enabled and a `Reflect.getMetadata` polyfill such as reflect-metadata is
+ * loaded, from the parameter types TypeScript records. Works with both standard
+ * decorators and `experimentalDecorators`.
+ *
+ * @param options - Registration options, plus `global`, `args` and `container`
+ * @returns The class decorator
+ * @throws {Error} If the class is already registered
+ * @throws {Error} If a constructor parameter's dependency cannot be inferred, including
+ * parameters without a default when there is no design metadata and no `args` option
+ *
+ * @example
+ * ```typescript
+ * @Singleton({ global: 'ApiService', args: [ConfigService, 5000] })
+ * class ApiService {
+ *   constructor(public config: ConfigService, public timeout: number) {}
+ * }
+ *
+ * // With experimentalDecorators and emitDecoratorMetadata
+ * @Singleton()
+ * class UserService {
+ *   constructor(public api: ApiService, @Inject(LoggerToken) public logger: Logger) {}
+ * }
+ * ```
+ */
+export function Singleton(options: SingletonOptions = {}) {
+  return <C extends Constructor<any>>(target: C, context?: ClassDecoratorContext<C>): void => {
+    const { global, args, container, ...registration } = options;
+    const registerArgs = [
+      ...(Object.keys(registration).length > 0 ? [registrationOptions(registration)] : []),
+      ...(args ?? constructorArgs(target)),
+    ];
+
+    const owner = container ?? (global !== undefined ? getGlobalContainer() : SingletonRegistry.container);
+    const key = owner.registerClass(target, registerArgs, global);
+    if (global !== undefined) {
+      exposeGlobal(global, key);
+    }
+
+    decoratedContainers.set(target, owner);
+  };
+}
+
+/**
+ * Inject a registered class or token
+ *
+ * With `experimentalDecorators`, decorate a constructor parameter of a
+ * `@Singleton` class. Standard decorators cannot decorate parameters, so
+ * decorate a field instead: it is resolved from the container the class was
+ * registered in while the instance is constructed.
+ *
+ * @template T - The type of the injected instance
+ * @param key - The registered class or token to inject
+ * @returns The parameter or field decorator
+ *
+ * @example
+ * ```typescript
+ * // experimentalDecorators
+ * @Singleton()
+ * class ApiService {
+ *   constructor(@Inject(LoggerToken) private logger: Logger) {}
+ * }
+ *
+ * // Standard decorators
+ * @Singleton()
+ * class ApiService {
+ *   @Inject(LoggerToken) private logger!: Logger;
+ * }
+ * ```
+ */
+export function Inject<T>(key: Key<T>): InjectDecorator<T> {
+  return ((target: any, context: any, parameterIndex?: number) => {
+    if (typeof parameterIndex === 'number') {
+      if (context !== undefined) {
+        throw new Error(`@Inject(${keyName(key)}) can only decorate constructor parameters`);
+      }
+      let keys = parameterKeys.get(target);
+      if (!keys) {
+        keys = new Map();
+        parameterKeys.set(target, keys);
+      }
+      keys.set(parameterIndex, key);
+      return;
+    }
+
+    if (typeof context === 'object' && context?.kind === 'field') {
+      return function (this: any) {
+        return containerOf(this.constructor).get(key);
+      };
+    }
+
+    throw new Error(`@Inject(${keyName(key)}) can only decorate constructor parameters or fields`);
+  }) as InjectDecorator<T>;
+}
+
+/**
+ * Build register arguments for a class from its @Inject parameters and design metadata
+ */
+function constructorArgs(target: Function): any[] {
+  const keys = parameterKeys.get(target) ?? new Map<number, Key<any>>();
+  const types: unknown[] = (Reflect as any).getMetadata?.('design:paramtypes', target) ?? [];
+  const count = Math.max(types.length, ...[...keys.keys()].map(index => index + 1));
+  if (target.length > count) {
+    // Without metadata or @Inject, required parameters would silently receive undefined
+    throw new Error(
+      `Cannot infer the dependency for parameter ${count} of ${target.name} without design metadata; use @Inject() or the args option`
+    );
+  }
+
+  const args: any[] = [];
+  for (let index = 0; index < count; index++) {
+    const key = keys.get(index) ?? types[index];
+    if (uninjectableTypes.has(key)) {
+      throw new Error(
+        `Cannot infer the dependency for parameter ${index} of ${target.name}; use @Inject() or the args option`
+      );
+    }
+    args.push(inject(key as Key<any>));
+  }
+  return args;
+}
+
+/**
+ * Get the container a decorated class, or the nearest decorated base class, was registered in
+ */
+function containerOf(constructor: Function): Container {
+  for (let current = constructor; current; current = Object.getPrototypeOf(current)) {
+    const container = decoratedContainers.get(current);
+    if (container) {
+      return container;
+    }
+  }
+  return SingletonRegistry.container;
+}
@@ -0,0 +1,84 @@
+import { channel } from 'node:diagnostics_channel';
+import { performance } from 'node:perf_hooks';
+import { ContainerHooks, CreateEvent } from './hooks';
+import { keyName } from './token';
+
+/**
+ * The diagnostics_channel names `diagnosticsHooks()` publishes to, by hook
+ */
+export const diagnosticsChannels = {
+  onRegister: 'true-static:register',
+  beforeCreate: 'true-static:before-create',
+  afterCreate: 'true-static:after-create',
+  onResolve: 'true-static:resolve',
+  onError: 'true-static:error',
+} as const;
+
+/**
+ * Options for `diagnosticsHooks`
+ */
+export interface DiagnosticsOptions {
+  /** Add a `performance.measure` entry for every created instance (defaults to true) */
+  performance?: boolean;
+}
+
+/**
+ * Create hooks that publish every event to `node:diagnostics_channel` and
+ * time instance creation on the performance timeline
+ *
+ * Each hook publishes its event object unchanged to the channel named in
+ * {@link diagnosticsChannels}, only when the channel has subscribers. Every
+ * created instance also gets a measure named `true-static:create {name}`,
+ * whose detail holds the Global name and the resolution path by name. The
+ * timeline keeps entries until they are cleared with `performance.clearMeasures()`.
+ *
+ * @param options - Set `performance` to false to publish to channels only
+ * @returns Hooks to pass to `addHooks()`
+ *
+ * @example
+ * ```typescript
+ * import { subscribe } from 'node:diagnostics_channel';
+ *
+ * Singletons.addHooks(diagnosticsHooks());
+ *
+ * subscribe(diagnosticsChannels.onError, message => {
+ *   const { name, error } = message as ResolutionErrorEvent;
+ *   console.error(`Failed to resolve ${name}`, error);
+ * });
+ * ```
+ */
+export function diagnosticsHooks(options: DiagnosticsOptions = {}): ContainerHooks {
+  const { performance: measure = true } = options;
+  const publish = (hook: keyof typeof diagnosticsChannels, event: object) => {
+    const target = channel(diagnosticsChannels[hook]);
+    if (target.hasSubscribers) {
+      target.publish(event);
+    }
+  };
+
+  return {
+    onRegister: event => publish('onRegister', event),
+    beforeCreate: event => publish('beforeCreate', event),
+    afterCreate: event => {
+      publish('afterCreate', event);
+      if (measure) {
+        measureCreation(event);
+      }
+    },
+    onResolve: event => publish('onResolve', event),
+    onError: event => publish('onError', event),
+  };
+}
+
+/**
+ * Add a performance measure spanning the creation of an instance
+ * The detail holds names only, since the timeline clones it and keys may not be cloneable.
+ */
+function measureCreation({ name, globalName, path, duration }: CreateEvent): void {
+  const end = performance.now();
+  performance.measure(`true-static:create ${name}`, {
+    start: end - duration,
+    end,
+    detail: { name, globalName, path: path.map(keyName), duration },
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * Create a proxy that forwards every operation to the object a function returns, looked up on each use
+ *
+ * Methods are called on that object rather than on the proxy, so they can
+ * reach its private fields, and reading the same method twice gives the
+ * same function. Its prototype is reported, so `instanceof` works.
+ * @internal
+ */
+export function forwardingProxy<T extends object>(target: () => T): T {
+  const methods = new WeakMap<Function, Function>();
+
+  return new Proxy({} as T, {
+    get(_, property) {
+      const value = Reflect.get(target(), property);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      if (!methods.has(value)) {
+        methods.set(value, (...args: unknown[]) => value.apply(target(), args));
+      }
+      return methods.get(value);
+    },
+    set: (_, property, value) => Reflect.set(target(), property, value),
+    has: (_, property) => Reflect.has(target(), property),
+    deleteProperty: (_, property) => Reflect.deleteProperty(target(), property),
+    defineProperty: (_, property, descriptor) => Reflect.defineProperty(target(), property, descriptor),
+    ownKeys: () => Reflect.ownKeys(target()),
+    getOwnPropertyDescriptor(_, property) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(target(), property);
+      // The proxy target is an empty object, which cannot report non-configurable properties
+      return descriptor && { ...descriptor, configurable: true };
+    },
+    getPrototypeOf: () => Reflect.getPrototypeOf(target()),
+  });
+}
@@ -1,4 +1,6 @@
-type Constructor<T = {}> = new (...args: any[]) => T;
+import { Constructor, RegisterArgs, TokenRegisterArgs } from './container';
+import { getGlobalContainer, initializeGlobalAccess, registerGlobal } from './singleton-registry';
+import { Key, Token } from './token';
 
 export interface GlobalSingletonRegistration<T> {
   name: string;
@@ -6,12 +8,115 @@ export interface GlobalSingletonRegistration<T> {
   args: any[];
 }
 
-export function extendGlobalSingletons<T extends Record<string, any>>(): void {
-  // This function serves as a type-only helper to extend GlobalSingletons interface
-  // Usage in user code:
-  // declare module 'true-static' {
-  //   interface GlobalSingletons {
-  //     MyService: MyService;
-  //   }
-  // }
-}
\ No newline at end of file
+/**
+ * How a name is defined in {@link defineGlobals}: a key, or a key followed by
+ * the arguments registerGlobalSingleton would take
+ */
+export type GlobalDefinition = Key<any> | readonly [Key<any>, ...any[]];
+
+/**
+ * A {@link defineGlobals} definition checked against the constructor it registers, as registerGlobalSingleton checks its arguments
+ *
+ * Resolves to the definition itself when its arguments fit, and otherwise to
+ * the tuple shape they should have, so the mismatch is reported on the entry.
+ * @template D - One definition
+ */
+export type CheckedGlobalDefinition<D> = D extends readonly [infer K, ...infer A]
+  ? K extends Constructor<any>
+    ? A extends RegisterArgs<K>
+      ? D
+      : readonly [K, ...RegisterArgs<K>]
+    : K extends Token<infer T>
+      ? A extends []
+        ? D
+        : TokenImplementation<A> extends Constructor<T>
+          ? A extends TokenRegisterArgs<TokenImplementation<A>>
+            ? D
+            : readonly [K, ...TokenRegisterArgs<TokenImplementation<A>>]
+          : readonly [K, ...TokenRegisterArgs<Constructor<T>>]
+      : D
+  : D;
+
+/**
+ * The implementing class among the arguments of a token definition, after the options if there are any
+ * @template A - The arguments following the token
+ */
+type TokenImplementation<A> = A extends readonly [infer C extends Constructor<any>, ...any[]]
+  ? C
+  : A extends readonly [object, infer C extends Constructor<any>, ...any[]]
+    ? C
+    : Constructor<any>;
+
+/**
+ * The instance type a key resolves to
+ * @template K - A class or token
+ */
+export type InstanceOfKey<K> = K extends Token<infer T> ? T : K extends Constructor<infer T> ? T : never;
+
+/**
+ * The type of Global inferred from a {@link defineGlobals} definition object
+ * @template D - The definitions, by Global name
+ */
+export type GlobalsOf<D extends Record<string, GlobalDefinition>> = {
+  readonly [Name in keyof D]: InstanceOfKey<D[Name] extends readonly [infer K, ...any[]] ? K : D[Name]>;
+};
+
+/**
+ * Register several singletons for global access at once and get Global typed from them
+ *
+ * Each entry is registered as `registerGlobalSingleton(name, key, ...args)`,
+ * and its arguments are type-checked against the constructor the same way,
+ * so the returned object is typed from the registrations themselves and
+ * needs no hand-written GlobalSingletons declaration. Global access is
+ * initialized first if it has not been.
+ *
+ * @template D - The definitions, by Global name
+ * @param definitions - A key, or a tuple of a key and its arguments, for each name
+ * @returns The Global object, typed with the defined names
+ * @throws {Error} If a class is already registered
+ *
+ * @example
+ * ```typescript
+ * export const Globals = defineGlobals({
+ *   ConfigService: [ConfigService, 'https://api.example.com', 5000],
+ *   DatabaseService: [DatabaseService, ConfigService],
+ *   Logger: [LoggerToken, ConsoleLogger],
+ *   Clock: SystemClock,
+ * });
+ *
+ * Globals.DatabaseService.query('SELECT 1'); // typed as DatabaseService
+ *
+ * // Optionally type the ambient Global from the same definitions
+ * type AppGlobals = typeof Globals;
+ * declare global {
+ *   interface GlobalSingletons extends AppGlobals {}
+ * }
+ * ```
+ */
+export function defineGlobals<const D extends Record<string, GlobalDefinition>>(
+  definitions: { [Name in keyof D]: CheckedGlobalDefinition<D[Name]> }
+): GlobalsOf<D> {
+  if (!globalThis.Global) {
+    initializeGlobalAccess(getGlobalContainer());
+  }
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    const [key, ...args] = Array.isArray(definition) ? definition : [definition];
+    registerGlobal(name, key, args);
+  }
+
+  return globalThis.Global as GlobalsOf<D>;
+}
+
+/**
+ * @deprecated Use {@link defineGlobals}, which infers the type of Global from the registrations,
+ * or declare the names yourself:
+ * ```typescript
+ * declare module 'true-static' {
+ *   interface GlobalSingletons {
+ *     MyService: MyService;
+ *   }
+ * }
+ * ```
+ */
+export function extendGlobalSingletons<T extends Record<string, any>>(): void {}
@@ -0,0 +1,211 @@
+import type { Lifetime, ProviderKind } from './container';
+import { ConfigMarker, ConfigValue } from './config';
+import { InjectMarker, LazyMarker } from './injection';
+import { Key, keyName } from './token';
+
+/**
+ * A registration in the dependency graph returned by `inspect()`
+ */
+export interface GraphNode {
+  /** The class or token the registration is keyed by */
+  key: Key<any>;
+  /** The class name or token description */
+  name: string;
+  /** The name the registration is accessible under as `Global.{name}`, if any */
+  globalName?: string;
+  /** Whether the registration came from `register`, `registerFactory` or `registerValue` */
+  provider: ProviderKind;
+  /** How long instances live */
+  lifetime: Lifetime;
+  /** Short descriptions of the constructor arguments (or factory deps), dependencies by name */
+  args: string[];
+  /** Keys this registration depends on, including unregistered ones */
+  dependencies: Key<any>[];
+  /** Keys injected through lazy() markers, if any; they are resolved on first use and may form cycles */
+  lazyDependencies?: Key<any>[];
+  /** Registered keys that depend on this one, eagerly or lazily */
+  dependents: Key<any>[];
+  /** Whether the singleton instance has been created */
+  instantiated: boolean;
+}
+
+/**
+ * The dependency graph of a container, built from its registrations
+ */
+export interface DependencyGraph {
+  /** One node per registered key, in registration order */
+  nodes: GraphNode[];
+}
+
+/** Longest literal argument shown in an argument summary before it is cut short */
+const maxArgumentLength = 40;
+
+/**
+ * Describe a registration argument for a graph node: dependencies by name, literals by value or type
+ * @internal
+ */
+export function describeArgument(arg: unknown): string {
+  if (arg instanceof InjectMarker) {
+    return keyName(arg.key);
+  }
+  if (arg instanceof LazyMarker) {
+    return `${arg.getter ? 'lazyGetter' : 'lazy'}(${keyName(arg.key)})`;
+  }
+  if (arg instanceof ConfigMarker) {
+    return `configFrom(${Object.values<ConfigValue>(arg.values).map(value => value.variable).join(', ')})`;
+  }
+  if (typeof arg === 'string') {
+    const quoted = JSON.stringify(arg);
+    return quoted.length > maxArgumentLength ? `${quoted.slice(0, maxArgumentLength - 4)}..."` : quoted;
+  }
+  if (typeof arg === 'function') {
+    return `[Function ${arg.name || 'anonymous'}]`;
+  }
+  if (Array.isArray(arg)) {
+    return `Array(${arg.length})`;
+  }
+  if (arg !== null && typeof arg === 'object') {
+    const name = Object.getPrototypeOf(arg)?.constructor?.name;
+    return name && name !== 'Object' ? name : '{...}';
+  }
+  return String(arg);
+}
+
+/**
+ * Render a dependency graph in Graphviz DOT format, dependents pointing at their dependencies
+ *
+ * Dependencies that are not registered are drawn with a dashed outline, and
+ * lazy dependencies with a dashed edge.
+ *
+ * @param graph - The graph returned by `inspect()`
+ * @returns The DOT source
+ *
+ * @example
+ * ```typescript
+ * writeFileSync('singletons.dot', toDot(Singletons.inspect()));
+ * ```
+ */
+export function toDot(graph: DependencyGraph): string {
+  const { ids, missing } = nodeIds(graph);
+  const quote = (label: string[]) => `"${label.map(line => line.replace(/\\/g, '\\\\').replace(/"/g, '\\"')).join('\\n')}"`;
+  const lines = ['digraph singletons {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.key)} [label=${quote(nodeLabel(node))}];`);
+  }
+  for (const key of missing) {
+    lines.push(`  ${ids.get(key)} [label=${quote([keyName(key), '(not registered)'])}, style=dashed];`);
+  }
+  for (const node of graph.nodes) {
+    for (const dependency of node.dependencies) {
+      lines.push(`  ${ids.get(node.key)} -> ${ids.get(dependency)};`);
+    }
+    for (const dependency of node.lazyDependencies ?? []) {
+      lines.push(`  ${ids.get(node.key)} -> ${ids.get(dependency)} [style=dashed];`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render a dependency graph as a Mermaid flowchart, dependents pointing at their dependencies
+ *
+ * Lazy dependencies are drawn with a dotted edge.
+ *
+ * @param graph - The graph returned by `inspect()`
+ * @returns The Mermaid source, ready for a ```mermaid block
+ *
+ * @example
+ * ```typescript
+ * console.log(toMermaid(Singletons.inspect()));
+ * ```
+ */
+export function toMermaid(graph: DependencyGraph): string {
+  const { ids, missing } = nodeIds(graph);
+  const quote = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+  const lines = ['graph LR'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.key)}[${quote(nodeLabel(node).join('<br/>'))}]`);
+  }
+  for (const key of missing) {
+    lines.push(`  ${ids.get(key)}[${quote(`${keyName(key)}<br/>(not registered)`)}]:::missing`);
+  }
+  for (const node of graph.nodes) {
+    for (const dependency of node.dependencies) {
+      lines.push(`  ${ids.get(node.key)} --> ${ids.get(dependency)}`);
+    }
+    for (const dependency of node.lazyDependencies ?? []) {
+      lines.push(`  ${ids.get(node.key)} -.-> ${ids.get(dependency)}`);
+    }
+  }
+  if (missing.length > 0) {
+    lines.push('  classDef missing stroke-dasharray: 5 5');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a dependency graph as JSON, with keys replaced by their names
+ *
+ * @param graph - The graph returned by `inspect()`
+ * @returns The JSON text, indented for reading in diffs
+ *
+ * @example
+ * ```typescript
+ * writeFileSync('singletons.json', toJson(Singletons.inspect()));
+ * ```
+ */
+export function toJson(graph: DependencyGraph): string {
+  const nodes = graph.nodes.map(node => ({
+    name: node.name,
+    globalName: node.globalName,
+    provider: node.provider,
+    lifetime: node.lifetime,
+    args: node.args,
+    dependencies: node.dependencies.map(keyName),
+    lazyDependencies: node.lazyDependencies?.map(keyName),
+    dependents: node.dependents.map(keyName),
+    instantiated: node.instantiated,
+  }));
+  return JSON.stringify({ nodes }, null, 2);
+}
+
+/**
+ * Assign an identifier to every node and every unregistered dependency
+ * Names are not used as identifiers since two tokens may share a description.
+ */
+function nodeIds(graph: DependencyGraph): { ids: Map<Key<any>, string>; missing: Key<any>[] } {
+  const ids = new Map<Key<any>, string>();
+  const missing: Key<any>[] = [];
+
+  for (const node of graph.nodes) {
+    ids.set(node.key, `n${ids.size}`);
+  }
+  for (const node of graph.nodes) {
+    for (const dependency of [...node.dependencies, ...(node.lazyDependencies ?? [])]) {
+      if (!ids.has(dependency)) {
+        ids.set(dependency, `n${ids.size}`);
+        missing.push(dependency);
+      }
+    }
+  }
+  return { ids, missing };
+}
+
+/**
+ * Get the lines describing a node: its name, its Global name if it has one and its lifetime unless it is a singleton
+ */
+function nodeLabel(node: GraphNode): string[] {
+  const label = [node.name];
+  if (node.globalName !== undefined) {
+    label.push(`Global.${node.globalName}`);
+  }
+  if (node.lifetime !== 'singleton') {
+    label.push(`(${node.lifetime})`);
+  }
+  return label;
+}
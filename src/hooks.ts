@@ -0,0 +1,82 @@
+import type { Lifetime, ProviderKind } from './container';
+import { Key } from './token';
+
+/**
+ * What every hook event reports about the key it concerns
+ */
+export interface HookEvent {
+  /** The class or token */
+  key: Key<any>;
+  /** The class name or token description */
+  name: string;
+  /** The name the key is accessible under as `Global.{name}`, if any */
+  globalName?: string;
+}
+
+/**
+ * Passed to `onRegister` after a registration is added
+ */
+export interface RegisterEvent extends HookEvent {
+  /** Whether the registration came from `register`, `registerFactory` or `registerValue` */
+  provider: ProviderKind;
+  /** How long instances live */
+  lifetime: Lifetime;
+}
+
+/**
+ * What every resolution hook event reports: the key and how it was reached
+ */
+export interface ResolutionEvent extends HookEvent {
+  /** The keys being resolved when this one was requested, outermost first, ending with this key */
+  path: Key<any>[];
+}
+
+/**
+ * Passed to `afterCreate` once an instance has been created
+ * @template T - The type of the instance
+ */
+export interface CreateEvent<T = any> extends ResolutionEvent {
+  /** The new instance, or the one returned by an earlier afterCreate hook */
+  instance: T;
+  /** Milliseconds spent in the constructor or factory and onInit hook, excluding dependencies */
+  duration: number;
+}
+
+/**
+ * Passed to `onResolve` whenever a key resolves, whether or not an instance was created
+ */
+export interface ResolveEvent extends ResolutionEvent {
+  /** The instance the key resolved to */
+  instance: unknown;
+  /** Milliseconds the resolution took, including creating the instance and its dependencies */
+  duration: number;
+}
+
+/**
+ * Passed to `onError` when a key fails to resolve
+ */
+export interface ResolutionErrorEvent extends ResolutionEvent {
+  /** The error thrown */
+  error: unknown;
+  /** Milliseconds until the resolution failed */
+  duration: number;
+}
+
+/**
+ * Callbacks that observe what a container does, added with `addHooks()`
+ *
+ * Every hook is optional and called synchronously. An error thrown by a hook
+ * propagates to the caller of the method that triggered it.
+ */
+export interface ContainerHooks {
+  /** Called after a class, factory or value is registered */
+  onRegister?(event: RegisterEvent): void;
+  /** Called before an instance is created, before its dependencies are resolved */
+  beforeCreate?(event: ResolutionEvent): void;
+  /** Called after an instance is created, before it is cached; return a value to use it in place of the instance */
+  afterCreate?(event: CreateEvent): unknown;
+  /** Called every time a key resolves, including from the cache and as a dependency */
+  onResolve?(event: ResolveEvent): void;
+  /** Called once when a key fails to resolve, for the innermost key that failed */
+  onError?(event: ResolutionErrorEvent): void;
+}
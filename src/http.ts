@@ -0,0 +1,88 @@
+import { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import { Container } from './container';
+import { Scope } from './scope';
+import { runInScope } from './singleton-registry';
+
+/**
+ * The request being handled, provided to every request scope created by withRequestScope
+ *
+ * Scoped registrations can take it as a dependency to reach the current request.
+ *
+ * @example
+ * ```typescript
+ * class RequestContext {
+ *   constructor(public http: HttpContext) {}
+ *   get userId() {
+ *     return this.http.request.headers['x-user-id'];
+ *   }
+ * }
+ *
+ * registerGlobalSingleton('RequestContext', RequestContext, { requestScoped: true }, HttpContext);
+ * ```
+ */
+export class HttpContext {
+  constructor(
+    public readonly request: IncomingMessage,
+    public readonly response: ServerResponse
+  ) {}
+}
+
+/**
+ * Options for withRequestScope
+ */
+export interface RequestScopeOptions {
+  /** Container to create request scopes in (defaults to the container Global is bound to) */
+  container?: Container;
+  /** Called when the handler throws; by default the request is answered with a 500 */
+  onError?: (error: unknown, request: IncomingMessage, response: ServerResponse) => void;
+}
+
+/**
+ * Wrap a `node:http` request handler so that each request runs in its own scope
+ *
+ * The scope is active for everything the handler does, including asynchronous
+ * work, and is disposed once the response has closed. An {@link HttpContext}
+ * for the request is provided to the scope.
+ *
+ * @param handler - The request handler to wrap
+ * @param options - Container and error handling options
+ * @returns A request listener to pass to `http.createServer`
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ *
+ * const server = createServer(withRequestScope(async (req, res) => {
+ *   res.end(`Hello ${Global.RequestContext.userId}`);
+ * }));
+ * ```
+ */
+export function withRequestScope(
+  handler: (request: IncomingMessage, response: ServerResponse) => void | Promise<void>,
+  options: RequestScopeOptions = {}
+): RequestListener {
+  const onError = options.onError ?? respondWithServerError;
+
+  return (request, response) => {
+    const run = async (scope: Scope) => {
+      scope.provide(HttpContext, new HttpContext(request, response));
+      const closed = new Promise<void>(resolve => response.once('close', resolve));
+      await Promise.all([handler(request, response), closed]);
+    };
+
+    const handled = options.container ? options.container.runInScope(run) : runInScope(run);
+    handled.catch(error => onError(error, request, response));
+  };
+}
+
+/**
+ * Default error handler: answer with a 500 unless a response is already on its way
+ */
+function respondWithServerError(error: unknown, request: IncomingMessage, response: ServerResponse): void {
+  if (!response.headersSent) {
+    response.statusCode = 500;
+  }
+  if (!response.writableEnded) {
+    response.end();
+  }
+}
@@ -1,2 +1,80 @@
-export { SingletonRegistry, Singletons, initializeGlobalAccess, registerGlobalSingleton } from './singleton-registry';
-export { extendGlobalSingletons } from './global-types';
+export {
+  GlobalAccessOptions,
+  RegistrySnapshot,
+  SingletonRegistry,
+  Singletons,
+  initializeGlobalAccess,
+  registerGlobalSingleton,
+  runInScope,
+} from './singleton-registry';
+export {
+  Container,
+  ContainerSnapshot,
+  Factory,
+  FactoryOptions,
+  InitOptions,
+  InitReport,
+  InitTiming,
+  Lifetime,
+  MultiRegisterArgs,
+  MultiRegistrationOptions,
+  OverrideHandle,
+  OverridePair,
+  OverrideReplacement,
+  ProviderKind,
+  RegisterArgs,
+  RegistrationOptions,
+  ReplaceListener,
+  Resolve,
+  SnapshotOptions,
+  TokenRegisterArgs,
+} from './container';
+export {
+  InjectMarker,
+  Injectable,
+  InjectableArgs,
+  LazyMarker,
+  LiteralMarker,
+  OptionsMarker,
+  all,
+  inject,
+  lazy,
+  lazyGetter,
+  literal,
+  named,
+  options,
+} from './injection';
+export {
+  ConfigMarker,
+  ConfigOptions,
+  ConfigRequirement,
+  ConfigSource,
+  ConfigType,
+  ConfigValue,
+  configFrom,
+  dotenvFile,
+  env,
+  jsonFile,
+} from './config';
+export { Key, Token, createToken } from './token';
+export { Inject, InjectDecorator, Singleton, SingletonOptions } from './decorators';
+export { ValidationError, ValidationOptions, ValidationProblem } from './validation';
+export { DependencyGraph, GraphNode, toDot, toJson, toMermaid } from './graph';
+export { CandidateReport, Explanation } from './profiles';
+export {
+  ContainerHooks,
+  CreateEvent,
+  HookEvent,
+  RegisterEvent,
+  ResolutionErrorEvent,
+  ResolutionEvent,
+  ResolveEvent,
+} from './hooks';
+export { DiagnosticsOptions, diagnosticsChannels, diagnosticsHooks } from './diagnostics';
+export { Interceptor, Invocation, MethodTiming, RetryOptions, retry, timed, timedChannel } from './interception';
+export { Scope } from './scope';
+export { currentScope } from './request-scope';
+export { HttpContext, RequestScopeOptions, withRequestScope } from './http';
+export { OnInit, OnDispose } from './lifecycle';
+export { autoRestoreOverrides, restoreOverrides } from './testing';
+export { CheckedGlobalDefinition, GlobalDefinition, GlobalsOf, InstanceOfKey, defineGlobals, extendGlobalSingletons } from './global-types';
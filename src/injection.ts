@@ -0,0 +1,313 @@
+import type { MultiRegistrationOptions, RegistrationOptions } from './container';
+import { ConfigMarker } from './config';
+import { Key, Token, keyName } from './token';
+
+/**
+ * Marks a constructor argument as a dependency to resolve from the container
+ * @template T - The type of the injected instance
+ */
+export class InjectMarker<T = any> {
+  /** Makes the marker nominal, so that a lazy() marker for the same key does not type-check in its place */
+  declare private readonly nominal: never;
+
+  constructor(public readonly key: Key<T>) {}
+}
+
+/**
+ * Marks a constructor argument to be passed through as-is, even if it looks like a class
+ * @template T - The type of the value
+ */
+export class LiteralMarker<T = any> {
+  constructor(public readonly value: T) {}
+}
+
+/**
+ * Marks the first argument to `register` or `registerMulti` as registration options rather than a constructor argument
+ * @template O - The type of the options
+ */
+export class OptionsMarker<O extends RegistrationOptions | MultiRegistrationOptions = RegistrationOptions> {
+  constructor(public readonly options: O) {}
+}
+
+/**
+ * Marks a constructor argument as a dependency resolved on first use, through a proxy or a getter
+ * @template T - The type of the lazily resolved instance
+ * @template G - Whether a `() => T` getter is injected rather than a proxy
+ */
+export class LazyMarker<T = any, G extends boolean = boolean> {
+  constructor(public readonly key: Key<T>, public readonly getter: G) {}
+}
+
+/**
+ * A constructor argument as accepted by `register`: the value itself, or a
+ * registered class, token or marker that provides it
+ * @template T - The type of the constructor parameter
+ */
+export type Injectable<T> =
+  | T
+  | Key<T>
+  | InjectMarker<T>
+  | LiteralMarker<T>
+  | LazyMarker<T, false>
+  | ConfigMarker<T>
+  | (T extends () => infer R ? LazyMarker<R, true> : never);
+
+/**
+ * Constructor parameter types mapped to the arguments `register` accepts for them
+ * @template P - The constructor parameter types
+ */
+export type InjectableArgs<P extends readonly unknown[]> = { [I in keyof P]: Injectable<P[I]> };
+
+/**
+ * Explicitly mark a constructor argument as a dependency
+ *
+ * Classes passed to `register` are injected automatically; `inject` makes the
+ * intent explicit and also works for functions that do not look like classes.
+ *
+ * @template T - The type of the injected instance
+ * @param key - The registered class or token to inject
+ * @returns A dependency marker
+ *
+ * @example
+ * ```typescript
+ * Singletons.register(ApiService, inject(ConfigService), 5000);
+ * ```
+ */
+export function inject<T>(key: Key<T>): InjectMarker<T> {
+  return new InjectMarker(key);
+}
+
+/** The token standing for each named registration of a key, by key and name */
+const namedTokens = new WeakMap<object, Map<string, Token<any>>>();
+
+/**
+ * Get the key of a named registration, to inject or resolve one of several instances of a class
+ *
+ * Registering with `{ key: name }` stores the registration under this key, so
+ * it can be passed anywhere a key is accepted: as a constructor argument,
+ * to `get`, `override` or `registerGlobalSingleton`. The same key and name
+ * always give the same token.
+ *
+ * @template T - The type of the instance
+ * @param key - The class or token registered under several names
+ * @param name - The name given as the `key` registration option
+ * @returns The token of the named registration
+ *
+ * @example
+ * ```typescript
+ * Singletons.register(DatabaseService, { key: 'primary' }, 'postgres://primary');
+ * Singletons.register(DatabaseService, { key: 'replica' }, 'postgres://replica');
+ * Singletons.register(ReportService, named(DatabaseService, 'replica'));
+ *
+ * Singletons.get(DatabaseService, 'primary');
+ * ```
+ */
+export function named<T>(key: Key<T>, name: string): Token<T> {
+  let tokens = namedTokens.get(key);
+  if (!tokens) {
+    tokens = new Map();
+    namedTokens.set(key, tokens);
+  }
+
+  let token = tokens.get(name);
+  if (!token) {
+    token = new Token(`${keyName(key)}(${name})`);
+    tokens.set(name, token);
+  }
+  return token;
+}
+
+/** The token standing for every multi-binding of a key, by key */
+const collectionTokens = new WeakMap<object, Token<any[]>>();
+
+/** Every token created by collectionToken(), to tell collections apart from other keys */
+const collections = new WeakSet<Token<any>>();
+
+/**
+ * Get the token the multi-bindings of a key are collected under
+ * @internal
+ */
+export function collectionToken<T>(key: Key<T>): Token<T[]> {
+  let token = collectionTokens.get(key);
+  if (!token) {
+    token = new Token(`${keyName(key)}[]`);
+    collectionTokens.set(key, token);
+    collections.add(token);
+  }
+  return token;
+}
+
+/**
+ * Check whether a key is the collection token of multi-bindings
+ * @internal
+ */
+export function isCollectionToken(key: Key<any>): boolean {
+  return key instanceof Token && collections.has(key);
+}
+
+/**
+ * Mark a constructor argument as the array of every multi-binding of a key
+ *
+ * The array holds the contributions registered with `registerMulti`, in
+ * order, and is empty if there are none.
+ *
+ * @template T - The type of each contribution
+ * @param key - The class or token the contributions are registered under
+ * @returns A dependency marker
+ *
+ * @example
+ * ```typescript
+ * class HealthService {
+ *   constructor(public checks: HealthCheck[]) {}
+ * }
+ *
+ * Singletons.registerMulti(HealthCheck, DatabaseCheck, DatabaseService);
+ * Singletons.registerMulti(HealthCheck, CacheCheck);
+ * Singletons.register(HealthService, all(HealthCheck));
+ * ```
+ */
+export function all<T>(key: Key<T>): InjectMarker<T[]> {
+  return new InjectMarker(collectionToken(key));
+}
+
+/**
+ * Mark a constructor argument as a dependency that is resolved on first use
+ *
+ * The constructor receives a proxy that stands in for the instance and
+ * resolves it the first time one of its properties is used. Lazy edges are
+ * left out of circular dependency checks, so two singletons that only call
+ * each other after construction can depend on each other as long as one side
+ * of the cycle is lazy. Using the proxy inside the constructor still fails
+ * with the circular dependency error.
+ *
+ * @template T - The type of the injected instance
+ * @param key - The registered class or token to inject
+ * @returns A lazy dependency marker
+ *
+ * @example
+ * ```typescript
+ * class EventBus {
+ *   constructor(public scheduler: Scheduler) {}
+ * }
+ * class Scheduler {
+ *   constructor(public events: EventBus) {}
+ * }
+ *
+ * Singletons.register(EventBus, Scheduler);
+ * Singletons.register(Scheduler, lazy(EventBus));
+ * ```
+ */
+export function lazy<T>(key: Key<T>): LazyMarker<T, false> {
+  return new LazyMarker(key, false);
+}
+
+/**
+ * Mark a constructor argument as a function that resolves a dependency when called
+ *
+ * The explicit alternative to {@link lazy}: the constructor receives a
+ * `() => T` getter instead of a proxy, which suits instances that must not
+ * be wrapped, such as ones compared by identity. The instance is resolved
+ * on the first call and the same one is returned afterwards.
+ *
+ * @template T - The type of the injected instance
+ * @param key - The registered class or token to inject
+ * @returns A lazy dependency marker
+ *
+ * @example
+ * ```typescript
+ * class Scheduler {
+ *   constructor(private events: () => EventBus) {}
+ *
+ *   tick() {
+ *     this.events().emit('tick');
+ *   }
+ * }
+ *
+ * Singletons.register(Scheduler, lazyGetter(EventBus));
+ * ```
+ */
+export function lazyGetter<T>(key: Key<T>): LazyMarker<T, true> {
+  return new LazyMarker(key, true);
+}
+
+/**
+ * Mark a constructor argument as a literal value so it is never injected
+ *
+ * Use it to pass a class or other constructor function itself to a constructor.
+ *
+ * @template T - The type of the value
+ * @param value - The value to pass to the constructor unchanged
+ * @returns A literal marker
+ *
+ * @example
+ * ```typescript
+ * class ErrorReporter {
+ *   constructor(public errorType: typeof Error) {}
+ * }
+ *
+ * Singletons.register(ErrorReporter, literal(TypeError));
+ * ```
+ */
+export function literal<T>(value: T): LiteralMarker<T> {
+  return new LiteralMarker(value);
+}
+
+/**
+ * Mark registration options explicitly, so they can never be mistaken for a constructor argument
+ *
+ * A plain object before the constructor arguments is taken as options when
+ * every one of its keys is an option name. Wrapping the options in `options()`
+ * makes that explicit; wrap a constructor argument in `literal()` to have it
+ * passed to the constructor even though it looks like options.
+ *
+ * @template O - The type of the options
+ * @param options - The registration options
+ * @returns An options marker to pass to `register` before the constructor arguments
+ *
+ * @example
+ * ```typescript
+ * class FeatureFlags {
+ *   constructor(public flags: { eager: boolean }) {}
+ * }
+ *
+ * Singletons.register(FeatureFlags, options({ eager: true }), literal({ eager: false }));
+ * ```
+ */
+export function options<O extends RegistrationOptions | MultiRegistrationOptions>(options: O): OptionsMarker<O> {
+  return new OptionsMarker(options);
+}
+
+/**
+ * Normalize registration arguments: classes, tokens and inject() markers become dependencies,
+ * lazy() markers become lazy dependencies, literal() markers are unwrapped and everything else is passed through
+ *
+ * @param args - Arguments as given to register
+ * @returns The arguments with dependencies as inject() markers, and the lists of dependency and lazy dependency keys
+ */
+export function toInjectionArgs(args: any[]): { args: any[]; dependencies: Key<any>[]; lazyDependencies: Key<any>[] } {
+  const dependencies: Key<any>[] = [];
+  const lazyDependencies: Key<any>[] = [];
+  const processedArgs: any[] = [];
+
+  for (const arg of args) {
+    if (arg instanceof LiteralMarker) {
+      processedArgs.push(arg.value);
+    } else if (arg instanceof LazyMarker) {
+      lazyDependencies.push(arg.key);
+      processedArgs.push(arg);
+    } else if (arg instanceof InjectMarker) {
+      dependencies.push(arg.key);
+      processedArgs.push(arg);
+    } else if (arg instanceof Token) {
+      dependencies.push(arg);
+      processedArgs.push(new InjectMarker(arg));
+    } else if (typeof arg === 'function' && arg.prototype && arg.prototype.constructor === arg) {
+      dependencies.push(arg);
+      processedArgs.push(new InjectMarker(arg));
+    } else {
+      processedArgs.push(arg);
+    }
+  }
+
+  return { args: processedArgs, dependencies, lazyDependencies };
+}
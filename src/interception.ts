@@ -0,0 +1,199 @@
+import { channel } from 'node:diagnostics_channel';
+import { isPromiseLike } from './lifecycle';
+import { Key } from './token';
+
+/**
+ * A method call passing through an interceptor chain
+ */
+export interface Invocation {
+  /** The class or token the instance is registered under */
+  key: Key<any>;
+  /** The instance the method is called on, which is also its `this` */
+  target: object;
+  /** The name of the called method */
+  method: string;
+  /** The arguments of the call; interceptors may change or replace them before calling proceed() */
+  args: unknown[];
+  /**
+   * Call the next interceptor, or the method itself after the last one, and return its result
+   * A promise for async methods. May be called more than once, such as to retry, or not at all to short-circuit.
+   */
+  proceed(): unknown;
+}
+
+/**
+ * Runs around every method call on an instance registered with the `intercept` option
+ *
+ * Returns the result of the call: usually that of `invocation.proceed()`,
+ * or a value of its own to short-circuit the method.
+ */
+export type Interceptor = (invocation: Invocation) => unknown;
+
+/**
+ * Options for the {@link retry} interceptor
+ */
+export interface RetryOptions {
+  /** Milliseconds to wait before each retry of an async method; sync methods are retried at once (defaults to 0) */
+  delay?: number;
+  /** Whether a failure should be retried (defaults to retrying every error) */
+  retryIf?: (error: unknown) => boolean;
+}
+
+/**
+ * The diagnostics_channel name `timed()` publishes each {@link MethodTiming} to when given no reporter
+ */
+export const timedChannel = 'true-static:timed';
+
+/**
+ * How long one intercepted method call took, as reported by {@link timed}
+ */
+export interface MethodTiming {
+  /** The class or token the instance is registered under */
+  key: Key<any>;
+  /** The name of the called method */
+  method: string;
+  /** Milliseconds until the method returned, or until its promise settled for async methods */
+  duration: number;
+}
+
+/**
+ * Wrap an instance so that every method call runs through an interceptor chain, the first interceptor outermost
+ *
+ * Methods and accessors run with the instance itself as `this`, so private fields
+ * keep working, and the proxy keeps the instance's prototype for `instanceof`.
+ * Methods inherited from Object.prototype are not intercepted.
+ * @internal
+ */
+export function intercepted<T>(instance: T, key: Key<any>, interceptors: Interceptor[]): T {
+  if (instance === null || typeof instance !== 'object' || interceptors.length === 0) {
+    return instance;
+  }
+
+  const wrappers = new Map<string, { method: Function; wrapper: Function }>();
+
+  return new Proxy(instance, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof property !== 'string' || typeof value !== 'function' || value === (Object.prototype as any)[property]) {
+        return value;
+      }
+
+      // Reuse the wrapper while the property holds the same function, so `proxy.method === proxy.method`
+      const cached = wrappers.get(property);
+      if (cached?.method === value) {
+        return cached.wrapper;
+      }
+      const call = (index: number, args: unknown[]): unknown => {
+        if (index === interceptors.length) {
+          return value.apply(target, args);
+        }
+        const invocation: Invocation = {
+          key,
+          target,
+          method: property,
+          args,
+          proceed: () => call(index + 1, invocation.args),
+        };
+        return interceptors[index](invocation);
+      };
+      const wrapper = (...args: unknown[]) => call(0, args);
+      wrappers.set(property, { method: value, wrapper });
+      return wrapper;
+    },
+    // Accessors run on the instance rather than the proxy, like methods
+    set: (target, property, value) => Reflect.set(target, property, value),
+  });
+}
+
+/**
+ * Retry intercepted methods that throw, or whose promise rejects
+ *
+ * @param retries - How many times to retry after the first failure
+ * @param options - The delay between retries and which errors to retry
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * Singletons.register(ApiService, { intercept: [retry(3, { delay: 200 })] }, ConfigService);
+ * ```
+ */
+export function retry(retries: number, options: RetryOptions = {}): Interceptor {
+  const { delay = 0, retryIf = () => true } = options;
+
+  return invocation => {
+    const attempt = (remaining: number): unknown => {
+      let result: unknown;
+      try {
+        result = invocation.proceed();
+      } catch (error) {
+        if (remaining > 0 && retryIf(error)) {
+          return attempt(remaining - 1);
+        }
+        throw error;
+      }
+
+      if (!isPromiseLike(result)) {
+        return result;
+      }
+      return Promise.resolve(result).catch(async error => {
+        if (remaining > 0 && retryIf(error)) {
+          if (delay > 0) {
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
+          return attempt(remaining - 1);
+        }
+        throw error;
+      });
+    };
+
+    return attempt(retries);
+  };
+}
+
+/**
+ * Time intercepted method calls, until the returned promise settles for async methods
+ *
+ * Without a reporter, each timing is published to the {@link timedChannel}
+ * diagnostics channel, only when the channel has subscribers, so nothing is
+ * kept for calls nobody listens to.
+ *
+ * @param report - Receives each timing (defaults to publishing it to {@link timedChannel})
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * Singletons.register(ApiService, {
+ *   intercept: [timed(({ method, duration }) => metrics.histogram(`api.${method}`, duration))],
+ * }, ConfigService);
+ * ```
+ */
+export function timed(report: (timing: MethodTiming) => void = publishTiming): Interceptor {
+  return invocation => {
+    const started = performance.now();
+    const done = () => report({ key: invocation.key, method: invocation.method, duration: performance.now() - started });
+
+    let result: unknown;
+    try {
+      result = invocation.proceed();
+    } catch (error) {
+      done();
+      throw error;
+    }
+
+    if (!isPromiseLike(result)) {
+      done();
+      return result;
+    }
+    return Promise.resolve(result).finally(done);
+  };
+}
+
+/**
+ * Publish a method timing to the timed channel, if anyone subscribed
+ */
+function publishTiming(timing: MethodTiming): void {
+  const target = channel(timedChannel);
+  if (target.hasSubscribers) {
+    target.publish(timing);
+  }
+}
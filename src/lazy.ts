@@ -0,0 +1,14 @@
+import { forwardingProxy } from './forwarding';
+import { LazyMarker } from './injection';
+
+/**
+ * Build the value a lazy() or lazyGetter() marker injects: a getter, or a proxy
+ * that forwards every operation to the instance, resolving it on first use
+ * @internal
+ */
+export function lazyValue(marker: LazyMarker, resolve: () => unknown): unknown {
+  let instance: object | undefined;
+  const target = (): object => (instance ??= resolve() as object);
+
+  return marker.getter ? target : forwardingProxy(target);
+}
@@ -0,0 +1,97 @@
+/**
+ * Implemented by singletons that need an asynchronous setup step (opening a
+ * connection, warming a cache, ...) before they can be used.
+ *
+ * Singletons with an `onInit` hook must be created through `getAsync`; once
+ * initialized they are available through `get` and `Global` like any other
+ * singleton.
+ *
+ * @example
+ * ```typescript
+ * class DatabaseService implements OnInit {
+ *   async onInit() {
+ *     await this.connect();
+ *   }
+ * }
+ * ```
+ */
+export interface OnInit {
+  onInit(): void | Promise<void>;
+}
+
+/**
+ * Implemented by singletons that hold resources (sockets, timers, file handles)
+ * which must be released when the registry shuts down.
+ *
+ * Instances may instead implement `[Symbol.dispose]` or `[Symbol.asyncDispose]`.
+ *
+ * @example
+ * ```typescript
+ * class CacheService implements OnDispose {
+ *   dispose() {
+ *     clearInterval(this.sweepTimer);
+ *   }
+ * }
+ * ```
+ */
+export interface OnDispose {
+  dispose(): void | Promise<void>;
+}
+
+/** Well-known disposal symbols, when the runtime provides them */
+export const disposeSymbol: symbol | undefined = (Symbol as any).dispose;
+export const asyncDisposeSymbol: symbol | undefined = (Symbol as any).asyncDispose;
+
+/**
+ * Check whether a class declares an onInit hook and so must be created via getAsync
+ */
+export function hasAsyncInit(constructor: Function): boolean {
+  return typeof constructor.prototype?.onInit === 'function';
+}
+
+/**
+ * Check whether a value is a promise or another thenable
+ */
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return value !== null && (typeof value === 'object' || typeof value === 'function') && typeof (value as any).then === 'function';
+}
+
+/**
+ * Release an instance's resources using the first disposal method it implements
+ */
+export async function disposeInstance(instance: any): Promise<void> {
+  if (instance === null || (typeof instance !== 'object' && typeof instance !== 'function')) {
+    return;
+  }
+
+  if (asyncDisposeSymbol && typeof instance[asyncDisposeSymbol] === 'function') {
+    await instance[asyncDisposeSymbol]();
+  } else if (disposeSymbol && typeof instance[disposeSymbol] === 'function') {
+    instance[disposeSymbol]();
+  } else if (typeof instance.dispose === 'function') {
+    await instance.dispose();
+  }
+}
+
+/**
+ * Dispose instances one after another, collecting failures instead of stopping at the first
+ *
+ * @param instances - Instances in the order they should be disposed
+ * @param description - What is being disposed, used in the aggregated error message
+ * @throws {AggregateError} If one or more disposals failed
+ */
+export async function disposeAll(instances: any[], description: string): Promise<void> {
+  const errors: unknown[] = [];
+
+  for (const instance of instances) {
+    try {
+      await disposeInstance(instance);
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AggregateError(errors, `Failed to dispose ${errors.length} ${description}`);
+  }
+}
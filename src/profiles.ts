@@ -0,0 +1,106 @@
+import { Key, keyName } from './token';
+
+/**
+ * One registration of a key, as reported by `explain()`
+ */
+export interface CandidateReport {
+  /** The class a class registration constructs, or `factory` / `value` */
+  implementation: string;
+  /** Profiles the registration is limited to; undefined if it counts in every profile */
+  profiles?: string[];
+  /** Whether the registration has a `when` condition */
+  conditional: boolean;
+  /** Whether the registration's profile is active and its condition holds */
+  active: boolean;
+  /** Whether the key resolves to this registration */
+  selected: boolean;
+  /** Why the registration was selected, passed over or left out */
+  reason: string;
+}
+
+/**
+ * Why a key resolves to the implementation it does, returned by `explain()`
+ */
+export interface Explanation {
+  key: Key<any>;
+  /** The profiles active in the container */
+  activeProfiles: string[];
+  /** The registration the key resolves to; undefined if none is active */
+  selected?: CandidateReport;
+  /** Every registration of the key, in registration order */
+  candidates: CandidateReport[];
+  /** The explanation as readable text */
+  message: string;
+}
+
+/**
+ * The conditions a registration is limited to
+ * @internal
+ */
+export interface Conditions {
+  profiles?: string[];
+  when?: () => boolean;
+}
+
+/**
+ * Whether a registration counts under the active profiles, and how specific it is
+ * @internal
+ */
+export interface Assessment {
+  active: boolean;
+  /** One point for a matching profile and one for a holding condition; the most specific active registration wins */
+  specificity: number;
+  reason: string;
+}
+
+/**
+ * Check a registration's profiles and condition against the active profiles
+ * @internal
+ */
+export function assess(conditions: Conditions, activeProfiles: ReadonlySet<string>): Assessment {
+  const reasons: string[] = [];
+  let specificity = 0;
+
+  if (conditions.profiles) {
+    const matched = conditions.profiles.find(profile => activeProfiles.has(profile));
+    if (matched === undefined) {
+      return { active: false, specificity, reason: `profile ${conditions.profiles.join(' or ')} is not active` };
+    }
+    reasons.push(`profile ${matched} is active`);
+    specificity++;
+  }
+
+  if (conditions.when) {
+    if (!conditions.when()) {
+      return { active: false, specificity, reason: 'its when() condition is false' };
+    }
+    reasons.push('its when() condition is true');
+    specificity++;
+  }
+
+  return { active: true, specificity, reason: reasons.length > 0 ? reasons.join(' and ') : 'it is unconditional' };
+}
+
+/**
+ * Build an Explanation with its message from the candidate reports
+ * @internal
+ */
+export function explanation(key: Key<any>, activeProfiles: string[], candidates: CandidateReport[]): Explanation {
+  const selected = candidates.find(candidate => candidate.selected);
+  const profiles = activeProfiles.length > 0 ? `active profiles: ${activeProfiles.join(', ')}` : 'no profiles are active';
+  const outcome =
+    selected ? `resolves to ${selected.implementation}`
+    : candidates.length > 0 ? 'has no active registration'
+    : 'is not registered';
+
+  const lines = [`${keyName(key)} ${outcome}; ${profiles}`];
+  for (const candidate of candidates) {
+    const tags = [
+      ...(candidate.profiles ? [`profile ${candidate.profiles.join(', ')}`] : []),
+      ...(candidate.conditional ? ['when'] : []),
+    ];
+    lines.push(`  - ${candidate.implementation} (${tags.length > 0 ? tags.join(', ') : 'unconditional'}): ${candidate.reason}`);
+  }
+
+  return { key, activeProfiles, selected, candidates, message: lines.join('\n') };
+}
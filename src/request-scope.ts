@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Scope } from './scope';
+
+/** Scope bound to the current asynchronous execution context by runInScope */
+const scopeStorage = new AsyncLocalStorage<Scope>();
+
+/**
+ * Get the scope bound to the current asynchronous context, if any
+ *
+ * Inside `runInScope`, `get`, `getAsync` and `Global` resolve scoped
+ * registrations from this scope without it being passed around.
+ *
+ * @returns The active scope, or undefined outside of runInScope
+ */
+export function currentScope(): Scope | undefined {
+  return scopeStorage.getStore();
+}
+
+/**
+ * Run a function with a scope bound to its asynchronous context
+ * @internal
+ */
+export function runWithScope<R>(scope: Scope, fn: () => R): R {
+  return scopeStorage.run(scope, fn);
+}
@@ -0,0 +1,193 @@
+import { Key, keyName } from './token';
+import { asyncDisposeSymbol, disposeAll } from './lifecycle';
+
+/**
+ * Resolution callbacks a scope uses to build instances through the container that created it
+ */
+export interface ScopeResolver {
+  get<T>(key: Key<T>, scope: Scope): T;
+  getAsync<T>(key: Key<T>, scope: Scope): Promise<T>;
+}
+
+/**
+ * A short-lived resolution scope created with `container.createScope()`.
+ *
+ * Registrations with the `'scoped'` lifetime get one instance per scope;
+ * singletons are shared with the container. Disposing the scope tears down
+ * every scoped and transient instance it created, newest first.
+ *
+ * @example
+ * ```typescript
+ * const scope = container.createScope();
+ * try {
+ *   const unitOfWork = scope.get(UnitOfWork);
+ * } finally {
+ *   await scope.dispose();
+ * }
+ * ```
+ */
+export class Scope {
+  /** Scoped instances cached by key */
+  private instances = new Map<Key<any>, any>();
+  /** In-flight asynchronous creations of scoped instances */
+  private pending = new Map<Key<any>, Promise<any>>();
+  /** Every instance created in this scope, in creation order */
+  private created: any[] = [];
+  /** Whether dispose() has been called */
+  private disposed = false;
+
+  /**
+   * @param resolver - Callbacks into the container that created this scope
+   */
+  constructor(private readonly resolver: ScopeResolver) {}
+
+  /**
+   * Resolve an instance within this scope
+   *
+   * @template T - The type of the instance
+   * @param key - The registered class or token to resolve
+   * @returns The scoped, transient or singleton instance
+   * @throws {Error} If the scope has been disposed
+   */
+  get<T>(key: Key<T>): T {
+    this.assertActive();
+    return this.resolver.get(key, this);
+  }
+
+  /**
+   * Resolve an instance within this scope, awaiting async initialization
+   *
+   * @template T - The type of the instance
+   * @param key - The registered class or token to resolve
+   * @returns A promise resolving to the initialized instance
+   * @throws {Error} If the scope has been disposed
+   */
+  async getAsync<T>(key: Key<T>): Promise<T> {
+    this.assertActive();
+    return this.resolver.getAsync(key, this);
+  }
+
+  /**
+   * Seed this scope with an existing instance, such as the current HTTP request
+   *
+   * Provided instances resolve as dependencies of scoped and transient
+   * registrations even though the class itself is not registered. They are
+   * owned by the caller and are not disposed with the scope.
+   *
+   * @template T - The type of the instance
+   * @param key - The class or token the instance is resolved as
+   * @param instance - The instance to provide
+   */
+  provide<T>(key: Key<T>, instance: T): void {
+    this.assertActive();
+    this.instances.set(key, instance);
+  }
+
+  /**
+   * Check whether this scope already holds an instance for a key
+   * @internal
+   */
+  has(key: Key<any>): boolean {
+    return this.instances.has(key);
+  }
+
+  /**
+   * Get the instance this scope holds for a key
+   * @internal
+   */
+  instance<T>(key: Key<T>): T {
+    return this.instances.get(key);
+  }
+
+  /**
+   * Dispose every instance created in this scope, newest first
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   * @throws {AggregateError} If one or more disposals failed
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+
+    const instances = this.created.reverse();
+    this.created = [];
+    this.instances.clear();
+    await disposeAll(instances, 'scoped instance(s)');
+  }
+
+  /**
+   * Get the scoped instance for a class, creating it on first access
+   * @internal
+   */
+  instanceFor<T>(key: Key<T>, create: () => T): T {
+    if (this.instances.has(key)) {
+      return this.instances.get(key);
+    }
+    if (this.pending.has(key)) {
+      throw new Error(
+        `Scoped ${keyName(key)} is still initializing; await getAsync(${keyName(key)}) before accessing it`
+      );
+    }
+
+    const instance = create();
+    this.instances.set(key, instance);
+    return this.track(instance);
+  }
+
+  /**
+   * Get the scoped instance for a class, sharing one asynchronous creation between concurrent callers
+   * @internal
+   */
+  instanceForAsync<T>(key: Key<T>, create: () => Promise<T>): Promise<T> {
+    if (this.instances.has(key)) {
+      return Promise.resolve(this.instances.get(key));
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = create().then(instance => {
+        this.instances.set(key, instance);
+        return this.track(instance);
+      });
+
+      const created = pending;
+      const settle = () => {
+        if (this.pending.get(key) === created) {
+          this.pending.delete(key);
+        }
+      };
+      created.then(settle, settle);
+      this.pending.set(key, created);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Record an instance so that it is disposed together with this scope
+   * @internal
+   */
+  track<T>(instance: T): T {
+    this.created.push(instance);
+    return instance;
+  }
+
+  /**
+   * Throw if the scope can no longer resolve instances
+   */
+  private assertActive(): void {
+    if (this.disposed) {
+      throw new Error('Scope has already been disposed');
+    }
+  }
+
+  static {
+    if (asyncDisposeSymbol) {
+      (Scope.prototype as any)[asyncDisposeSymbol] = function (this: Scope) {
+        return this.dispose();
+      };
+    }
+  }
+}
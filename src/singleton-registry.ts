@@ -1,44 +1,52 @@
-/**
- * Constructor type for creating instances of class T
- * @template T - The type of the class instance
- */
-type Constructor<T = {}> = new (...args: any[]) => T;
-
-/**
- * Internal registry entry for a singleton instance
- * @template T - The type of the singleton instance
- */
-interface SingletonEntry<T> {
-  /** The constructor function for the singleton */
-  constructor: Constructor<T>;
-  /** The cached singleton instance (undefined until first access) */
-  instance?: T;
-  /** Original constructor arguments provided during registration */
-  args: any[];
-  /** List of constructor dependencies that need to be resolved */
-  dependencies: Constructor<any>[];
-  /** Constructor arguments with dependencies resolved to instances */
-  resolvedArgs?: any[];
-}
+import {
+  Constructor,
+  Container,
+  ContainerSnapshot,
+  Factory,
+  FactoryOptions,
+  InitOptions,
+  InitReport,
+  MultiRegisterArgs,
+  OverrideHandle,
+  OverridePair,
+  OverrideReplacement,
+  RegisterArgs,
+  ReplaceListener,
+  SnapshotOptions,
+  TokenRegisterArgs,
+} from './container';
+import { ConfigRequirement } from './config';
+import { DependencyGraph } from './graph';
+import { ContainerHooks } from './hooks';
+import { collectionToken } from './injection';
+import { Explanation } from './profiles';
+import { Scope } from './scope';
+import { Key, Token, keyName } from './token';
+import { ValidationError, ValidationOptions, ValidationProblem } from './validation';
 
 /**
- * Core singleton registry that manages singleton instances with dependency injection
- * and lazy initialization. Provides both traditional class-based access and global
- * access patterns.
+ * Process-wide singleton registry backed by a default {@link Container}.
+ * Provides both traditional class-based access and global access patterns.
+ * Libraries that need their own namespace should create a `new Container()` instead.
+ *
+ * When Global is bound to another container, the static methods act on that
+ * one too: registrations, children and scopes are created in the default
+ * container, methods taking a key use whichever of the two registers it, and
+ * every other method covers both. Reports such as `inspect()` read only the
+ * Global container when it is a child of the default one, as it already
+ * includes the default container's registrations.
  */
 export class SingletonRegistry {
-  /** Map of constructor functions to their singleton entries */
-  private static registry = new Map<Constructor<any>, SingletonEntry<any>>();
-  /** Stack tracking current initialization chain to detect circular dependencies */
-  private static initializationStack = new Set<Constructor<any>>();
+  /** The default container every static method delegates to */
+  static readonly container = new Container();
 
   /**
    * Register a singleton class with its constructor arguments
    * 
-   * @template T - The type of the singleton class
-   * @param constructor - The class constructor to register as a singleton
-   * @param args - Arguments to pass to the constructor, including other singleton classes for dependency injection
-   * @throws {Error} If the class is already registered
+   * @template C - The singleton class, or the class implementing the token
+   * @param key - The class constructor to register as a singleton, or a token
+   * @param args - Optional registration options, then (for tokens) the implementing class, then arguments to pass to the constructor, including other singleton classes and tokens for dependency injection
+   * @throws {Error} If the key is already registered
    * 
    * @example
    * ```typescript
@@ -47,91 +55,525 @@ export class SingletonRegistry {
    * }
    * 
    * SingletonRegistry.register(ConfigService, 'https://api.example.com');
+   * SingletonRegistry.register(RequestLogger, { lifetime: 'transient' }, ConfigService);
+   * SingletonRegistry.register(LoggerToken, ConsoleLogger);
    * ```
    */
-  static register<T>(
-    constructor: Constructor<T>,
-    ...args: any[]
-  ): void {
-    if (this.registry.has(constructor)) {
-      throw new Error(`Singleton ${constructor.name} is already registered`);
-    }
+  static register<C extends Constructor<any>>(key: C, ...args: RegisterArgs<C>): void;
+  static register<T, C extends Constructor<T>>(key: Token<T>, ...args: TokenRegisterArgs<C>): void;
+  static register(key: Key<any>, ...args: any[]): void {
+    this.container.registerClass(key, args);
+  }
 
-    const dependencies: Constructor<any>[] = [];
-    const processedArgs: any[] = [];
+  /**
+   * Add a class to the multi-bindings of a key, collected by `getAll` and `all(key)`
+   *
+   * @template T - The type each contribution implements
+   * @template C - The contributing class
+   * @param key - The class or token the contributions are collected under
+   * @param args - Optional registration options with `order`, then the contributing class, then arguments to pass to its constructor
+   *
+   * @example
+   * ```typescript
+   * SingletonRegistry.registerMulti(HealthCheck, DatabaseCheck, DatabaseService);
+   * SingletonRegistry.registerMulti(HealthCheck, { order: -1 }, DiskCheck);
+   * ```
+   */
+  static registerMulti<T, C extends Constructor<T>>(key: Key<T>, ...args: MultiRegisterArgs<C>): void {
+    this.container.registerMulti(key, ...args);
+  }
 
-    for (const arg of args) {
-      if (typeof arg === 'function' && arg.prototype && arg.prototype.constructor === arg) {
-        dependencies.push(arg);
-        processedArgs.push(arg);
-      } else {
-        processedArgs.push(arg);
+  /**
+   * Register a factory that creates the instance for a class or token
+   *
+   * @template T - The type of the instance
+   * @param key - The class or token the instance is registered under
+   * @param factory - Creates the instance, receiving a `resolve` function for other registrations
+   * @param options - Registration options, plus `deps` listing the keys the factory resolves
+   * @throws {Error} If the key is already registered
+   *
+   * @example
+   * ```typescript
+   * SingletonRegistry.registerFactory(RedisClient, resolve => {
+   *   return createClient({ url: resolve(ConfigService).redisUrl });
+   * }, { deps: [ConfigService] });
+   * ```
+   */
+  static registerFactory<T>(key: Key<T>, factory: Factory<T>, options?: FactoryOptions): void {
+    this.container.registerFactory(key, factory, options);
+  }
+
+  /**
+   * Register an already-built instance for a class or token
+   *
+   * @template T - The type of the instance
+   * @param key - The class or token the instance is registered under
+   * @param value - The instance to return
+   * @throws {Error} If the key is already registered
+   *
+   * @example
+   * ```typescript
+   * SingletonRegistry.registerValue(ConfigService, new ConfigService('https://api.example.com'));
+   * ```
+   */
+  static registerValue<T>(key: Key<T>, value: T): void {
+    this.container.registerValue(key, value);
+  }
+
+  /**
+   * Replace a registration with a value or factory, typically a test double
+   *
+   * Singletons already built from the original registration are dropped so they
+   * pick up the replacement; Global access sees it too.
+   *
+   * @template T - The type of the instance
+   * @param key - The registered class or token to override
+   * @param replacement - The instance to use, a factory creating it, or a class to construct without arguments
+   * @returns A handle whose `restore()` brings back the original registration
+   * @throws {Error} If the key is not registered
+   *
+   * @example
+   * ```typescript
+   * const mailer = SingletonRegistry.override(MailService, { send: jest.fn() });
+   * // ...
+   * mailer.restore();
+   * ```
+   */
+  static override<T>(key: Key<T>, replacement: OverrideReplacement<T>): OverrideHandle {
+    return registryContainerFor(key).override(key, replacement);
+  }
+
+  /**
+   * Run a function with registrations overridden, restoring them once it settles
+   *
+   * Overrides are given as pairs of key and replacement, or as an object keyed
+   * by the names used with registerGlobalSingleton.
+   *
+   * @template R - The function's result type
+   * @param overrides - Pairs of a registered key and its replacement, or replacements by Global name
+   * @param fn - The function to run
+   * @returns A promise resolving to the function's result after the overrides are restored
+   * @throws {Error} If a key or Global name is not registered
+   *
+   * @example
+   * ```typescript
+   * await SingletonRegistry.withOverrides({ MailService: fakeMailer }, async () => {
+   *   await Global.SignupService.register('ada@example.com');
+   * });
+   * ```
+   */
+  static async withOverrides<R>(
+    overrides: Iterable<OverridePair> | Record<string, unknown>,
+    fn: () => R | Promise<R>
+  ): Promise<R> {
+    const handles: OverrideHandle[] = [];
+    try {
+      for (const [key, replacement] of toOverridePairs(overrides)) {
+        handles.push(this.override(key, replacement));
+      }
+      return await fn();
+    } finally {
+      for (const handle of handles.reverse()) {
+        handle.restore();
       }
     }
+  }
 
-    this.registry.set(constructor, {
-      constructor,
-      args: processedArgs,
-      dependencies,
-    });
+  /**
+   * Swap the instance of a singleton at runtime, notifying `onReplace` listeners
+   *
+   * Registrations with the `stable` option keep handing out the same proxy, so
+   * references held elsewhere, including `Global` ones, reach the new instance.
+   * The old instance is disposed, unless it was registered with `registerValue`.
+   *
+   * @template T - The type of the instance
+   * @param key - The registered class or token to replace the instance of
+   * @param replacement - The new instance, or constructor arguments to create it with
+   * @returns A promise that resolves once the old instance has been disposed
+   * @throws {Error} If the key is not registered as a singleton
+   *
+   * @example
+   * ```typescript
+   * Singletons.register(ConfigService, { stable: true }, 'https://api.example.com');
+   *
+   * await Singletons.replace(ConfigService, ['https://staging.example.com']);
+   * ```
+   */
+  static replace<T>(key: Key<T>, replacement: T | unknown[]): Promise<void> {
+    return registryContainerFor(key).replace(key, replacement);
+  }
+
+  /**
+   * Listen for `replace` swapping the instance of a key
+   *
+   * @template T - The type of the instance
+   * @param key - The class or token to listen for
+   * @param listener - Called with the new instance and the one it replaced
+   * @returns A function that removes the listener again
+   *
+   * @example
+   * ```typescript
+   * Singletons.onReplace(ConfigService, config => logger.info(`now using ${config.url}`));
+   * ```
+   */
+  static onReplace<T>(key: Key<T>, listener: ReplaceListener<T>): () => void {
+    return registryContainerFor(key).onReplace(key, listener);
+  }
+
+  /**
+   * Create a child container that resolves its own registrations first and
+   * falls back to the default container for everything else
+   *
+   * @returns The new child container
+   *
+   * @example
+   * ```typescript
+   * const tenant = SingletonRegistry.createChild();
+   * tenant.register(ConfigService, 'https://tenant.example.com');
+   * const api = tenant.get(ApiService);
+   * ```
+   */
+  static createChild(): Container {
+    return this.container.createChild();
+  }
+
+  /**
+   * Create a scope for resolving `'scoped'` registrations of the default container
+   *
+   * @returns The new scope
+   *
+   * @example
+   * ```typescript
+   * const scope = SingletonRegistry.createScope();
+   * const unitOfWork = scope.get(UnitOfWork);
+   * await scope.dispose();
+   * ```
+   */
+  static createScope(): Scope {
+    return this.container.createScope();
+  }
+
+  /**
+   * Run a function inside a new scope bound to its asynchronous context
+   *
+   * @template R - The function's result type
+   * @param fn - The function to run, receiving the new scope
+   * @returns A promise resolving to the function's result after the scope is disposed
+   *
+   * @example
+   * ```typescript
+   * await SingletonRegistry.runInScope(async () => {
+   *   SingletonRegistry.get(RequestContext);
+   * });
+   * ```
+   */
+  static runInScope<R>(fn: (scope: Scope) => R | Promise<R>): Promise<R> {
+    return this.container.runInScope(fn);
   }
 
   /**
    * Get the singleton instance of a registered class, creating it on first access
    * 
    * @template T - The type of the singleton class
-   * @param constructor - The class constructor to get the singleton instance of
+   * @param key - The class constructor or token to get the singleton instance of
+   * @param name - The name of one of several registrations of the key, as given in the `key` option
    * @returns The singleton instance
-   * @throws {Error} If the class is not registered
+   * @throws {Error} If the key is not registered
    * @throws {Error} If a circular dependency is detected
+   * @throws {Error} If the singleton (or one of its dependencies) needs async initialization that has not completed
    * 
    * @example
    * ```typescript
    * const config = SingletonRegistry.get(ConfigService);
    * ```
    */
-  static get<T>(constructor: Constructor<T>): T {
-    const entry = this.registry.get(constructor);
-    
-    if (!entry) {
-      throw new Error(`Singleton ${constructor.name} is not registered`);
+  static get<T>(key: Key<T>, name?: string): T {
+    return registryContainerFor(key, name).get(key, name);
+  }
+
+  /**
+   * Get the singleton instance of a registered class, awaiting its async
+   * initialization and that of every dependency in its chain
+   *
+   * @template T - The type of the singleton class
+   * @param key - The class constructor or token to get the singleton instance of
+   * @param name - The name of one of several registrations of the key, as given in the `key` option
+   * @returns A promise resolving to the initialized singleton instance
+   *
+   * @example
+   * ```typescript
+   * const db = await SingletonRegistry.getAsync(DatabaseService);
+   * ```
+   */
+  static getAsync<T>(key: Key<T>, name?: string): Promise<T> {
+    return registryContainerFor(key, name).getAsync(key, name);
+  }
+
+  /**
+   * Get every multi-binding of a key, in order
+   *
+   * @template T - The type each contribution implements
+   * @param key - The class or token the contributions were registered under with `registerMulti`
+   * @returns The contributions' instances, or an empty array if there are none
+   *
+   * @example
+   * ```typescript
+   * for (const check of SingletonRegistry.getAll(HealthCheck)) {
+   *   await check.run();
+   * }
+   * ```
+   */
+  static getAll<T>(key: Key<T>): T[] {
+    return registryContainerFor(collectionToken(key)).getAll(key);
+  }
+
+  /**
+   * Get every multi-binding of a key, in order, awaiting their async initialization
+   *
+   * @template T - The type each contribution implements
+   * @param key - The class or token the contributions were registered under with `registerMulti`
+   * @returns A promise resolving to the contributions' instances
+   */
+  static getAllAsync<T>(key: Key<T>): Promise<T[]> {
+    return registryContainerFor(collectionToken(key)).getAllAsync(key);
+  }
+
+  /**
+   * Create every eager singleton (or, with `all`, every singleton) in dependency order
+   *
+   * Initializes the default container and, when Global is bound to another
+   * container, that one too; the report covers both.
+   *
+   * @param options - Set `all` to create every singleton rather than only eager ones
+   * @returns A report with how long each created singleton took
+   * @throws {AggregateError} If one or more singletons failed to initialize
+   *
+   * @example
+   * ```typescript
+   * SingletonRegistry.register(DatabaseService, { eager: true }, ConfigService);
+   *
+   * const report = await SingletonRegistry.initAll();
+   * console.log(`Singletons ready in ${report.duration.toFixed(0)}ms`);
+   * ```
+   */
+  static async initAll(options?: InitOptions): Promise<InitReport> {
+    const started = performance.now();
+    const reports = await inEveryContainer(reportedContainers(), container => container.initAll(options), 'initialize');
+    return { timings: reports.flatMap(report => report.timings), duration: performance.now() - started };
+  }
+
+  /**
+   * Choose which profiles are active, selecting the registrations that count in them
+   *
+   * Activates the profiles in the default container and, when Global is bound
+   * to another container, in that one too. Each call replaces the previously
+   * active profiles and re-checks every `when` condition.
+   *
+   * @param profiles - The profiles to activate; none to deactivate every profile
+   *
+   * @example
+   * ```typescript
+   * SingletonRegistry.register(MailerToken, SmtpMailer, ConfigService);
+   * SingletonRegistry.register(MailerToken, { profile: ['dev', 'test'] }, FakeMailer);
+   *
+   * SingletonRegistry.activate(process.env.NODE_ENV ?? 'development');
+   * ```
+   */
+  static activate(...profiles: string[]): void {
+    for (const container of registryContainers()) {
+      container.activate(...profiles);
     }
+  }
 
-    if (entry.instance) {
-      return entry.instance;
+  /**
+   * Explain why a key resolves to the implementation it does
+   *
+   * @template T - The type of the instance
+   * @param key - The class or token to explain
+   * @param name - The name of one of several registrations of the key
+   * @returns The selected registration, every candidate, and a readable message
+   *
+   * @example
+   * ```typescript
+   * console.log(SingletonRegistry.explain(MailerToken).message);
+   * ```
+   */
+  static explain<T>(key: Key<T>, name?: string): Explanation {
+    return registryContainerFor(key, name).explain(key, name);
+  }
+
+  /**
+   * Observe registrations, instance creation, resolutions and errors
+   *
+   * Adds the hooks to the default container and, when Global is bound to
+   * another container, to that one too.
+   *
+   * @param hooks - The callbacks to call; every one is optional
+   * @returns A function that removes the hooks again
+   *
+   * @example
+   * ```typescript
+   * SingletonRegistry.addHooks({
+   *   onResolve: ({ name, globalName, duration }) => logger.debug({ name, globalName, duration }, 'resolved'),
+   * });
+   *
+   * // Or publish every event to diagnostics_channel and the performance timeline
+   * SingletonRegistry.addHooks(diagnosticsHooks());
+   * ```
+   */
+  static addHooks(hooks: ContainerHooks): () => void {
+    const removers = registryContainers().map(container => container.addHooks(hooks));
+    return () => removers.forEach(remove => remove());
+  }
+
+  /**
+   * Check every registration and Global name without creating any instance
+   *
+   * Validates the default container and, when Global is bound to another
+   * container, that one too. Reports every unregistered dependency, every
+   * circular dependency, every Global name that points at an unregistered key
+   * and every Global name that was registered more than once.
+   *
+   * @param options - Keys provided by scopes at runtime, which are not reported as missing
+   * @throws {ValidationError} Listing every problem found
+   *
+   * @example
+   * ```typescript
+   * // In the boot script, before serving traffic
+   * SingletonRegistry.validate({ provided: [HttpContext] });
+   * ```
+   */
+  static validate(options: ValidationOptions = {}): void {
+    const problems = reportedContainers().flatMap(container => container.findProblems(options));
+    problems.push(...globalProblems(getGlobalContainer(), options));
+
+    if (problems.length > 0) {
+      throw new ValidationError(problems);
     }
+  }
+
+  /**
+   * Get the dependency graph of the default container, with Global names filled in
+   *
+   * When Global is bound to another container, its nodes are included too.
+   *
+   * @returns One node per registered key, with its dependencies and dependents
+   *
+   * @example
+   * ```typescript
+   * import { writeFileSync } from 'node:fs';
+   *
+   * writeFileSync('singletons.dot', toDot(SingletonRegistry.inspect()));
+   * ```
+   */
+  static inspect(): DependencyGraph {
+    return withGlobalNames({ nodes: reportedContainers().flatMap(container => container.inspect().nodes) });
+  }
 
-    if (this.initializationStack.has(constructor)) {
-      const stackArray = Array.from(this.initializationStack);
-      const cycle = stackArray.slice(stackArray.indexOf(constructor));
-      cycle.push(constructor);
-      const cycleNames = cycle.map(c => c.name).join(' -> ');
-      throw new Error(`Circular dependency detected: ${cycleNames}`);
+  /**
+   * List every config value the registered singletons read through configFrom()
+   *
+   * Covers the default container and, when Global is bound to another
+   * container, that one too. Nothing is read from the environment.
+   *
+   * @returns One requirement per config value, with the variable, its type and whether it is required
+   *
+   * @example
+   * ```typescript
+   * const missing = SingletonRegistry.describeConfig().filter(({ variable, required }) => required && !(variable in process.env));
+   * ```
+   */
+  static describeConfig(): ConfigRequirement[] {
+    return reportedContainers().flatMap(container => container.describeConfig());
+  }
+
+  /**
+   * Dispose every singleton instance created so far, dependents before their dependencies
+   *
+   * Shuts down the container Global is bound to, when that is another one, and
+   * then the default container.
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   * @throws {AggregateError} If one or more disposals failed
+   *
+   * @example
+   * ```typescript
+   * afterAll(async () => {
+   *   await SingletonRegistry.shutdown();
+   * });
+   * ```
+   */
+  static async shutdown(): Promise<void> {
+    // The Global container may be a child of the default one, so it goes first
+    await inEveryContainer(registryContainers().reverse(), container => container.shutdown(), 'dispose');
+  }
+
+  /**
+   * Capture the registry, the Global names and the container Global is bound to
+   *
+   * When Global is bound to another container, that container is captured too.
+   *
+   * @param options - Whether to keep the singletons that exist now (defaults to true)
+   * @returns The snapshot, to be passed to `restore()`
+   *
+   * @example
+   * ```typescript
+   * import './register-services';
+   *
+   * const snapshot = SingletonRegistry.snapshot();
+   *
+   * beforeEach(async () => {
+   *   await SingletonRegistry.restore(snapshot);
+   * });
+   * ```
+   */
+  static snapshot(options?: SnapshotOptions): RegistrySnapshot {
+    const containers = registryContainers().map(container => container.snapshot(options));
+
+    const constructorMap: Map<string, Key<any>> | undefined = (globalThis as any).__singletonConstructorMap;
+    const duplicates = constructorMap && duplicateGlobals.get(constructorMap);
+    return new RegistrySnapshot(
+      containers,
+      constructorMap && new Map(constructorMap),
+      new Map([...(duplicates ?? [])].map(([name, keys]) => [name, [...keys]])),
+      (globalThis as any).__singletonContainer
+    );
+  }
+
+  /**
+   * Put the registry, the Global names and the Global binding back as they were at `snapshot()`
+   *
+   * Registrations, overrides and Global names added since are undone, and
+   * singletons created since are disposed.
+   *
+   * @param snapshot - A snapshot from `SingletonRegistry.snapshot()`
+   * @returns A promise that resolves once the dropped instances have been disposed
+   * @throws {AggregateError} If one or more disposals failed; the registry is restored regardless
+   */
+  static async restore(snapshot: RegistrySnapshot): Promise<void> {
+    if (snapshot.globalContainer) {
+      (globalThis as any).__singletonContainer = snapshot.globalContainer;
+    } else {
+      delete (globalThis as any).__singletonContainer;
     }
 
-    this.initializationStack.add(constructor);
-    
-    try {
-      if (!entry.resolvedArgs) {
-        entry.resolvedArgs = [];
-        
-        for (const arg of entry.args) {
-          if (entry.dependencies.includes(arg)) {
-            if (!this.registry.has(arg)) {
-              throw new Error(`Dependency ${arg.name} is not registered for singleton ${constructor.name}`);
-            }
-            entry.resolvedArgs.push(this.get(arg));
-          } else {
-            entry.resolvedArgs.push(arg);
-          }
-        }
+    if (snapshot.globals) {
+      const constructorMap: Map<string, Key<any>> =
+        (globalThis as any).__singletonConstructorMap ?? new Map<string, Key<any>>();
+      constructorMap.clear();
+      for (const [name, key] of snapshot.globals) {
+        constructorMap.set(name, key);
       }
-
-      entry.instance = new entry.constructor(...entry.resolvedArgs);
-      return entry.instance;
-    } finally {
-      this.initializationStack.delete(constructor);
+      duplicateGlobals.set(
+        constructorMap,
+        new Map([...snapshot.duplicates].map(([name, keys]) => [name, [...keys]]))
+      );
+      (globalThis as any).__singletonConstructorMap = constructorMap;
+    } else {
+      delete (globalThis as any).__singletonConstructorMap;
     }
+
+    await inEveryContainer(snapshot.containers, containerSnapshot => containerSnapshot.container.restore(containerSnapshot), 'dispose');
   }
 
   /**
@@ -147,16 +589,18 @@ export class SingletonRegistry {
    * ```
    */
   static clear(): void {
-    this.registry.clear();
-    this.initializationStack.clear();
+    for (const container of registryContainers()) {
+      container.clear();
+    }
   }
 
   /**
-   * Check if a class is registered as a singleton
+   * Check if a class or token is registered as a singleton
    * 
    * @template T - The type of the class to check
-   * @param constructor - The class constructor to check
-   * @returns True if the class is registered, false otherwise
+   * @param key - The class constructor or token to check
+   * @param name - The name of one of several registrations of the key
+   * @returns True if the key is registered, false otherwise
    * 
    * @example
    * ```typescript
@@ -165,11 +609,30 @@ export class SingletonRegistry {
    * }
    * ```
    */
-  static isRegistered<T>(constructor: Constructor<T>): boolean {
-    return this.registry.has(constructor);
+  static isRegistered<T>(key: Key<T>, name?: string): boolean {
+    return registryContainers().some(container => container.isRegistered(key, name));
   }
 }
 
+/**
+ * The registry state captured by `SingletonRegistry.snapshot()`, to be passed to `SingletonRegistry.restore()`
+ */
+export class RegistrySnapshot {
+  /**
+   * @param containers - Snapshots of the default container and, if different, the Global container
+   * @param globals - The Global names and the keys they refer to, if Global names were in use
+   * @param duplicates - Global names registered more than once, as reported by validate()
+   * @param globalContainer - The container Global was bound to, if bound explicitly
+   * @internal
+   */
+  constructor(
+    readonly containers: ContainerSnapshot[],
+    readonly globals: ReadonlyMap<string, Key<any>> | undefined,
+    readonly duplicates: ReadonlyMap<string, Key<any>[]>,
+    readonly globalContainer: Container | undefined
+  ) {}
+}
+
 /**
  * Convenient alias for SingletonRegistry for shorter usage
  * 
@@ -208,6 +671,35 @@ declare global {
   var Global: GlobalSingletons;
 }
 
+/**
+ * Options for {@link initializeGlobalAccess}
+ */
+export interface GlobalAccessOptions {
+  /** The container Global resolves singletons from (defaults to the SingletonRegistry container) */
+  container?: Container;
+  /** Return `undefined` for unknown names instead of throwing */
+  lenient?: boolean;
+}
+
+/**
+ * Property names that tooling probes objects for (promise resolution, JSON
+ * serialization, test matchers, React and DOM checks). They read as
+ * `undefined` instead of throwing when they are not registered names.
+ */
+const introspectionProps = new Set([
+  'then',
+  'toJSON',
+  'asymmetricMatch',
+  '$$typeof',
+  'nodeType',
+  'constructor',
+  '@@__IMMUTABLE_ITERABLE__@@',
+  '@@__IMMUTABLE_RECORD__@@',
+]);
+
+/** The symbol Node's util.inspect (and so console.log) looks up for custom output */
+const inspectSymbol = Symbol.for('nodejs.util.inspect.custom');
+
 /**
  * Internal proxy class that enables global singleton access via the Global object
  * Uses a Proxy to intercept property access and return singleton instances
@@ -220,20 +712,42 @@ class GlobalSingletonProxy {
 
   /**
    * Private constructor that creates the proxy handler
-   * The proxy intercepts property access and returns singleton instances
+   * The proxy intercepts property access and returns singleton instances,
+   * and reports the registered names to `in`, `Object.keys()` and debuggers
    */
   private constructor() {
     this.proxy = new Proxy(this, {
       get: (target, prop: string | symbol) => {
-        if (typeof prop === 'string') {
-          const constructorMap = (globalThis as any).__singletonConstructorMap;
-          if (constructorMap && constructorMap.has(prop)) {
-            const constructor = constructorMap.get(prop);
-            return SingletonRegistry.get(constructor);
-          }
+        if (typeof prop !== 'string') {
+          return undefined;
         }
-        return undefined;
-      }
+        const key = globalNames().get(prop);
+        if (key !== undefined) {
+          return getGlobalContainer().get(key);
+        }
+        // Object.prototype members such as toString and hasOwnProperty are inherited, not unknown names
+        if (prop in Object.prototype) {
+          return Reflect.get(target, prop);
+        }
+        if ((globalThis as any).__singletonLenientGlobal || introspectionProps.has(prop)) {
+          return undefined;
+        }
+        throw unknownGlobalName(prop);
+      },
+      has: (target, prop: string | symbol) => typeof prop === 'string' && globalNames().has(prop),
+      ownKeys: () => [...globalNames().keys()],
+      getOwnPropertyDescriptor: (target, prop: string | symbol) => {
+        if (typeof prop !== 'string' || !globalNames().has(prop)) {
+          return undefined;
+        }
+        // An accessor, so listing the names does not create the singletons
+        return { get: () => this.proxy[prop], enumerable: true, configurable: true };
+      },
+      set: (target, prop: string | symbol) => {
+        throw new Error(
+          `Cannot assign Global.${String(prop)}; register it with registerGlobalSingleton() or replace it with Singletons.override()`
+        );
+      },
     });
   }
 
@@ -255,12 +769,148 @@ class GlobalSingletonProxy {
   getProxy() {
     return this.proxy;
   }
+
+  /**
+   * Node inspects the proxy target rather than the proxy, so console.log(Global) lands here
+   * @returns An object listing every name without creating the singletons
+   */
+  [inspectSymbol]() {
+    return describeGlobals();
+  }
+}
+
+/**
+ * The Global names currently registered
+ */
+function globalNames(): Map<string, Key<any>> {
+  return (globalThis as any).__singletonConstructorMap ?? new Map();
+}
+
+/**
+ * What console.log shows for Global: every name, without creating the singletons
+ */
+function describeGlobals(): object {
+  const description = {};
+  for (const name of globalNames().keys()) {
+    Object.defineProperty(description, name, { get: () => (globalThis as any).Global[name], enumerable: true });
+  }
+  return description;
+}
+
+/**
+ * Create the error for a name that is not registered, suggesting the closest registered name
+ */
+function unknownGlobalName(name: string): Error {
+  const suggestion = closestName(name, [...globalNames().keys()]);
+  return new Error(`Global name ${name} is not registered${suggestion ? `; did you mean ${suggestion}?` : ''}`);
+}
+
+/**
+ * Find the candidate closest to a name by edit distance, ignoring case
+ * Candidates more than a third of the name's length away are not suggested.
+ */
+function closestName(name: string, candidates: string[]): string | undefined {
+  let closest: string | undefined;
+  let closestDistance = Math.max(1, Math.floor(name.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The containers the static SingletonRegistry methods act on: the default
+ * container and, when Global is bound to another container, that one
+ */
+function registryContainers(): Container[] {
+  const globalContainer = getGlobalContainer();
+  return globalContainer === SingletonRegistry.container
+    ? [SingletonRegistry.container]
+    : [SingletonRegistry.container, globalContainer];
+}
+
+/**
+ * The containers to read when a static SingletonRegistry method reports on every
+ * registration: {@link registryContainers}, or only the Global container when it
+ * descends from the default one, since a container's reports include its ancestors
+ */
+function reportedContainers(): Container[] {
+  const globalContainer = getGlobalContainer();
+  return globalContainer.descendsFrom(SingletonRegistry.container) ? [globalContainer] : registryContainers();
+}
+
+/**
+ * The container a static SingletonRegistry method taking a key acts on: the first
+ * of {@link registryContainers} that registers the key, or the default container
+ */
+function registryContainerFor(key: Key<any>, name?: string): Container {
+  return registryContainers().find(container => container.isRegistered(key, name)) ?? SingletonRegistry.container;
+}
+
+/**
+ * Run an async container method on each container (or container snapshot) in turn, collecting the failures of all of them
+ *
+ * @throws {AggregateError} If the method failed for one or more of them
+ */
+async function inEveryContainer<T, R>(items: T[], run: (item: T) => Promise<R>, action: string): Promise<R[]> {
+  const results: R[] = [];
+  const errors: unknown[] = [];
+  for (const item of items) {
+    try {
+      results.push(await run(item));
+    } catch (error) {
+      errors.push(...(error instanceof AggregateError ? error.errors : [error]));
+    }
+  }
+  if (errors.length > 0) {
+    throw new AggregateError(errors, `Failed to ${action} ${errors.length} singleton(s)`);
+  }
+  return results;
+}
+
+/**
+ * Get the container that Global access and registerGlobalSingleton are bound to
+ * @returns The bound container, or the default SingletonRegistry container
+ * @internal
+ */
+export function getGlobalContainer(): Container {
+  return (globalThis as any).__singletonContainer ?? SingletonRegistry.container;
 }
 
 /**
  * Initialize the global singleton access system
  * Call this once in your application entry point to enable Global.YourService access
  * 
+ * Reading a name that is not registered throws an error suggesting the closest
+ * registered name, unless `lenient` is set. Assigning to Global always throws.
+ * Once Global exists, calling this again only changes the container or
+ * `lenient` when they are passed, so a bare call leaves the binding alone.
+ * 
+ * @param options - The container Global resolves singletons from (defaults to the SingletonRegistry container), or {@link GlobalAccessOptions}
+ * 
  * @example
  * ```typescript
  * // In your main application file
@@ -268,12 +918,30 @@ class GlobalSingletonProxy {
  * 
  * initializeGlobalAccess();
  * // Now you can use Global.YourService anywhere
+ * 
+ * // Or bind Global to an application-specific container
+ * initializeGlobalAccess(appContainer);
+ * 
+ * // Or keep returning undefined for unknown names
+ * initializeGlobalAccess({ lenient: true });
  * ```
  */
-export function initializeGlobalAccess() {
+export function initializeGlobalAccess(options: Container | GlobalAccessOptions = {}) {
+  const { container, lenient } = options instanceof Container ? { container: options } : options;
+
+  if (typeof globalThis !== 'undefined') {
+    const initializing = !globalThis.Global;
+    if (container !== undefined || initializing) {
+      (globalThis as any).__singletonContainer = container ?? SingletonRegistry.container;
+    }
+    if (lenient !== undefined || initializing) {
+      (globalThis as any).__singletonLenientGlobal = lenient ?? false;
+    }
+  }
+
   if (typeof globalThis !== 'undefined' && !globalThis.Global) {
     if (!(globalThis as any).__singletonConstructorMap) {
-      (globalThis as any).__singletonConstructorMap = new Map<string, Constructor<any>>();
+      (globalThis as any).__singletonConstructorMap = new Map<string, Key<any>>();
     }
     
     const proxyInstance = GlobalSingletonProxy.getInstance();
@@ -283,11 +951,18 @@ export function initializeGlobalAccess() {
 
 /**
  * Register a singleton class for global access with a given name
+ * The singleton is registered in the container bound by initializeGlobalAccess
+ * 
+ * A token given without arguments is only exposed under the name, so a token
+ * already registered with `register`, `registerFactory` or `registerValue` can
+ * be made globally accessible.
  * 
- * @template T - The type of the singleton class
+ * Arguments are checked against the constructor's parameter types, as in `register`.
+ * 
+ * @template C - The singleton class, or the class implementing the token
  * @param name - The global name for the singleton (used in Global.{name})
- * @param constructor - The class constructor to register as a singleton
- * @param args - Arguments to pass to the constructor, including other singleton classes for dependency injection
+ * @param key - The class constructor to register as a singleton, or a token
+ * @param args - Arguments to pass to the constructor (for tokens, the implementing class first), including other singleton classes for dependency injection
  * 
  * @example
  * ```typescript
@@ -299,20 +974,155 @@ export function initializeGlobalAccess() {
  * 
  * // Now accessible globally
  * const config = Global.ConfigService;
+ * 
+ * // Tokens can be registered here or exposed after registering them elsewhere
+ * registerGlobalSingleton('Logger', LoggerToken, ConsoleLogger);
+ * 
+ * // Each named instance of a class can get its own name
+ * registerGlobalSingleton('ReplicaDb', DatabaseService, { key: 'replica' }, 'postgres://replica');
  * ```
  */
-export function registerGlobalSingleton<T>(
+export function registerGlobalSingleton<C extends Constructor<any>>(name: string, key: C, ...args: RegisterArgs<C>): void;
+export function registerGlobalSingleton<T, C extends Constructor<T>>(
   name: string,
-  constructor: Constructor<T>,
-  ...args: any[]
-): void {
-  SingletonRegistry.register(constructor, ...args);
-  
+  key: Token<T>,
+  ...args: [] | TokenRegisterArgs<C>
+): void;
+export function registerGlobalSingleton(name: string, key: Key<any>, ...args: any[]): void {
+  registerGlobal(name, key, args);
+}
+
+/**
+ * Register a key for global access without checking the arguments against its constructor
+ * @internal
+ */
+export function registerGlobal(name: string, key: Key<any>, args: any[]): void {
+  if (!(key instanceof Token) || args.length > 0) {
+    key = getGlobalContainer().registerClass(key, args, name);
+  }
+
+  exposeGlobal(name, key);
+}
+
+/** Every key registered under a Global name that was used more than once, per constructor map */
+const duplicateGlobals = new WeakMap<Map<string, Key<any>>, Map<string, Key<any>[]>>();
+
+/**
+ * Make an already-registered key accessible as Global.{name}
+ * Registering a different key under a name that is taken replaces it, and is reported by validate().
+ * @internal
+ */
+export function exposeGlobal(name: string, key: Key<any>): void {
   if (typeof globalThis !== 'undefined') {
     if (!(globalThis as any).__singletonConstructorMap) {
-      (globalThis as any).__singletonConstructorMap = new Map<string, Constructor<any>>();
+      (globalThis as any).__singletonConstructorMap = new Map<string, Key<any>>();
     }
     
-    (globalThis as any).__singletonConstructorMap.set(name, constructor);
+    const constructorMap: Map<string, Key<any>> = (globalThis as any).__singletonConstructorMap;
+    const existing = constructorMap.get(name);
+    if (existing !== undefined && existing !== key) {
+      let duplicates = duplicateGlobals.get(constructorMap);
+      if (!duplicates) {
+        duplicates = new Map();
+        duplicateGlobals.set(constructorMap, duplicates);
+      }
+      const keys = duplicates.get(name) ?? [existing];
+      if (!keys.includes(key)) {
+        keys.push(key);
+      }
+      duplicates.set(name, keys);
+    }
+
+    constructorMap.set(name, key);
+  }
+}
+
+/**
+ * Turn overrides given by Global name into key and replacement pairs
+ */
+function toOverridePairs(overrides: Iterable<OverridePair> | Record<string, unknown>): OverridePair[] {
+  if (Symbol.iterator in overrides) {
+    return [...(overrides as Iterable<OverridePair>)];
+  }
+
+  const constructorMap: Map<string, Key<any>> | undefined = (globalThis as any).__singletonConstructorMap;
+  return Object.entries(overrides).map(([name, replacement]) => {
+    const key = constructorMap?.get(name);
+    if (!key) {
+      throw unknownGlobalName(name);
+    }
+    return [key, replacement] as const;
+  });
+}
+
+/**
+ * Fill in the Global name of every graph node exposed through Global
+ * @internal
+ */
+export function withGlobalNames(graph: DependencyGraph): DependencyGraph {
+  const constructorMap: Map<string, Key<any>> | undefined = (globalThis as any).__singletonConstructorMap;
+  for (const [name, key] of constructorMap ?? []) {
+    const node = graph.nodes.find(node => node.key === key);
+    if (node) {
+      node.globalName = name;
+    }
+  }
+  return graph;
+}
+
+/**
+ * Find Global names that point at unregistered keys or were registered more than once
+ */
+function globalProblems(container: Container, options: ValidationOptions): ValidationProblem[] {
+  const constructorMap: Map<string, Key<any>> | undefined = (globalThis as any).__singletonConstructorMap;
+  if (!constructorMap) {
+    return [];
+  }
+
+  const provided = new Set(options.provided);
+  const problems: ValidationProblem[] = [];
+  for (const [name, keys] of duplicateGlobals.get(constructorMap) ?? []) {
+    problems.push({
+      kind: 'duplicate-global',
+      name,
+      keys,
+      message: `Global name ${name} is registered for ${keys.map(keyName).join(', ')}; the last registration wins`,
+    });
   }
+  for (const [name, key] of constructorMap) {
+    if (!container.isRegistered(key) && !provided.has(key)) {
+      problems.push({
+        kind: 'unregistered-global',
+        name,
+        key,
+        message: `Global.${name} refers to ${keyName(key)}, which is not registered`,
+      });
+    }
+  }
+  return problems;
+}
+
+/**
+ * Run a function inside a new request scope of the container Global is bound to
+ *
+ * Inside the function and everything it awaits, `Global.X` resolves scoped
+ * registrations (such as those marked `requestScoped`) to this scope's instances.
+ * The scope is disposed once the function settles.
+ *
+ * @template R - The function's result type
+ * @param fn - The function to run, receiving the new scope
+ * @returns A promise resolving to the function's result after the scope is disposed
+ *
+ * @example
+ * ```typescript
+ * registerGlobalSingleton('RequestContext', RequestContext, { requestScoped: true });
+ *
+ * await runInScope(async () => {
+ *   Global.RequestContext.userId = 'u_123';
+ *   await handleRequest(); // sees the same Global.RequestContext
+ * });
+ * ```
+ */
+export function runInScope<R>(fn: (scope: Scope) => R | Promise<R>): Promise<R> {
+  return getGlobalContainer().runInScope(fn);
 }
@@ -0,0 +1,43 @@
+import { forwardingProxy } from './forwarding';
+import { Key, keyName } from './token';
+
+/**
+ * The forwarding proxy a registration with the `stable` option hands out, and the instance it currently forwards to
+ * @internal
+ */
+export class StableReference<T extends object = any> {
+  /** The instance calls are forwarded to; undefined until hold() first hands out the proxy, and again after teardown */
+  current?: T;
+
+  /**
+   * The proxy handed out in place of the instance, the same one for the registration's whole life
+   * Used while there is no instance, such as after shutdown(), it resolves the registration again.
+   */
+  readonly proxy: T = forwardingProxy(() => {
+    if (this.current === undefined) {
+      this.resolve();
+    }
+    return this.current!;
+  });
+
+  /**
+   * @param key - The key of the registration, for error messages
+   * @param resolve - Resolves the registration, creating the instance the proxy forwards to
+   */
+  constructor(private readonly key: Key<T>, private readonly resolve: () => unknown) {}
+
+  /**
+   * Forward to a new instance from now on
+   *
+   * @param instance - The instance to forward to
+   * @returns The stable proxy
+   * @throws {Error} If the instance is not an object, which a proxy cannot stand in for
+   */
+  hold(instance: T): T {
+    if (instance === null || (typeof instance !== 'object' && typeof instance !== 'function')) {
+      throw new Error(`Stable singleton ${keyName(this.key)} must be an object, not ${instance === null ? 'null' : typeof instance}`);
+    }
+    this.current = instance;
+    return this.proxy;
+  }
+}
@@ -0,0 +1,44 @@
+import { restoreActiveOverrides } from './container';
+
+/**
+ * Restore every override made with `override` that is still active, newest first
+ *
+ * @example
+ * ```typescript
+ * afterEach(() => {
+ *   restoreOverrides();
+ * });
+ * ```
+ */
+export function restoreOverrides(): void {
+  restoreActiveOverrides();
+}
+
+/**
+ * Restore overrides automatically after each test
+ *
+ * Registers `restoreOverrides` with the test framework's global `afterEach`
+ * (Jest, Vitest with globals, Mocha). Call it once at the top of a test file
+ * or in a setup file listed in `setupFilesAfterEnv`.
+ *
+ * @throws {Error} If no global `afterEach` function is available
+ *
+ * @example
+ * ```typescript
+ * autoRestoreOverrides();
+ *
+ * it('sends a welcome mail', async () => {
+ *   const send = jest.fn();
+ *   Singletons.override(MailService, { send });
+ *   await Singletons.get(SignupService).register('ada@example.com');
+ *   expect(send).toHaveBeenCalled();
+ * });
+ * ```
+ */
+export function autoRestoreOverrides(): void {
+  const afterEach = (globalThis as any).afterEach;
+  if (typeof afterEach !== 'function') {
+    throw new Error('autoRestoreOverrides() requires a test framework that provides a global afterEach');
+  }
+  afterEach(restoreOverrides);
+}
@@ -0,0 +1,59 @@
+import { Constructor } from './container';
+
+/**
+ * A typed key for registering and resolving contracts that have no class of
+ * their own, such as interfaces
+ * @template T - The type of the instance the token resolves to
+ */
+export class Token<T> {
+  /** Phantom field that carries the token's type; never set at runtime */
+  declare readonly __type?: T;
+
+  /**
+   * @param description - Human-readable name used in error messages
+   */
+  constructor(public readonly description: string) {}
+
+  toString(): string {
+    return `Token(${this.description})`;
+  }
+}
+
+/**
+ * Anything a registration can be keyed by: a class or a token
+ * @template T - The type of the instance the key resolves to
+ */
+export type Key<T> = Constructor<T> | Token<T>;
+
+/**
+ * Create a typed injection token for an interface or other contract
+ *
+ * Tokens can be used wherever a class is accepted as a key: in `register`,
+ * `get`, as dependencies in argument lists and in `registerGlobalSingleton`.
+ *
+ * @template T - The type of the instance the token resolves to
+ * @param description - Human-readable name used in error messages
+ * @returns A new, unique token
+ *
+ * @example
+ * ```typescript
+ * interface Logger {
+ *   log(message: string): void;
+ * }
+ *
+ * const LoggerToken = createToken<Logger>('Logger');
+ *
+ * Singletons.register(LoggerToken, ConsoleLogger);
+ * const logger = Singletons.get(LoggerToken); // typed as Logger
+ * ```
+ */
+export function createToken<T>(description: string): Token<T> {
+  return new Token<T>(description);
+}
+
+/**
+ * Get the name of a key for use in messages: the class name or the token description
+ */
+export function keyName(key: Key<any>): string {
+  return key instanceof Token ? key.description : key.name;
+}
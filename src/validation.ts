@@ -0,0 +1,96 @@
+import { Key, keyName } from './token';
+
+/**
+ * A single problem found by `validate()`
+ */
+export type ValidationProblem =
+  | {
+      /** A registration depends on a key that is not registered */
+      kind: 'missing-dependency';
+      /** The unregistered dependency */
+      key: Key<any>;
+      /** The registration that depends on it */
+      dependent: Key<any>;
+      message: string;
+    }
+  | {
+      /** Registrations depend on each other in a loop */
+      kind: 'cycle';
+      /** The keys in the loop, starting and ending with the same key */
+      path: Key<any>[];
+      message: string;
+    }
+  | {
+      /** A Global name points at a key that is not registered */
+      kind: 'unregistered-global';
+      /** The Global name */
+      name: string;
+      /** The key it points at */
+      key: Key<any>;
+      message: string;
+    }
+  | {
+      /** Several keys were registered under the same Global name; the last one won */
+      kind: 'duplicate-global';
+      /** The Global name */
+      name: string;
+      /** Every key registered under the name, in registration order */
+      keys: Key<any>[];
+      message: string;
+    };
+
+/**
+ * Options for `validate()`
+ */
+export interface ValidationOptions {
+  /** Keys that scopes provide at runtime (such as `HttpContext`), so they are not reported as missing */
+  provided?: Key<any>[];
+}
+
+/**
+ * Thrown by `validate()` with every problem found in the dependency graph
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   Singletons.validate();
+ * } catch (error) {
+ *   if (error instanceof ValidationError) {
+ *     for (const problem of error.problems) {
+ *       console.error(problem.kind, problem.message);
+ *     }
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class ValidationError extends Error {
+  /**
+   * @param problems - Every problem found, in discovery order
+   */
+  constructor(public readonly problems: ValidationProblem[]) {
+    super(
+      `Singleton validation failed with ${problems.length} problem(s):\n` +
+        problems.map(problem => `  - ${problem.message}`).join('\n')
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Get the loop a key closes in a resolution path, as the key names joined by arrows
+ *
+ * @param path - Keys being resolved, outermost first
+ * @param key - The key that was reached again
+ * @returns The cycle, such as `A -> B -> A`
+ */
+export function formatCycle(path: Key<any>[], key: Key<any>): string {
+  return cyclePath(path, key).map(keyName).join(' -> ');
+}
+
+/**
+ * Get the loop a key closes in a resolution path, starting and ending with the key
+ */
+export function cyclePath(path: Key<any>[], key: Key<any>): Key<any>[] {
+  return [...path.slice(path.indexOf(key)), key];
+}